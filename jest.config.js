@@ -6,7 +6,8 @@ module.exports = {
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.test.ts',
-    '!src/**/*.d.ts'
+    '!src/**/*.d.ts',
+    '!src/__fixtures__/**'
   ],
   coverageThreshold: {
     global: {
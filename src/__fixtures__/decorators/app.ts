@@ -0,0 +1,48 @@
+// Compiled by the tests with experimentalDecorators and with standard decorators, it must behave the same under both
+import { ConfigValue, ContainerBuilder, Dependency, Injectable } from '../../index';
+
+export class Database {
+  constructor(public url: string) {}
+}
+
+export class Logger {
+  constructor(public channel: string) {}
+}
+
+@Injectable({ deps: [Database, Logger] })
+export class UserRepository {
+  constructor(public db: Database, public logger: Logger) {}
+}
+
+// Classes without decorators declare their dependencies with a static property
+export class AuditLog {
+  static inject = [new Dependency(Logger, 'audit'), new ConfigValue('audit.retention', { type: 'number' })];
+
+  constructor(public logger: Logger, public retention: number) {}
+}
+
+@Injectable({ lifetime: 'transient', deps: [UserRepository, AuditLog] })
+export class UserService {
+  constructor(public users: UserRepository, public audit: AuditLog) {}
+}
+
+export function run() {
+  const builder = new ContainerBuilder();
+  builder.config({ audit: { retention: '30' } });
+  builder.value(Database, new Database('db://users'));
+  builder.singleton(Logger, () => new Logger('app'));
+  builder.singleton(Logger, () => new Logger('audit'), {}, { name: 'audit' });
+  builder.singleton(UserRepository, UserRepository);
+  builder.singleton(AuditLog, AuditLog);
+  builder.scan({ UserService, UserRepository, AuditLog });
+  const container = builder.build();
+
+  const service = container.resolve(UserService);
+  return {
+    url: service.users.db.url,
+    channels: [service.users.logger.channel, service.audit.logger.channel],
+    retention: service.audit.retention,
+    transient: service !== container.resolve(UserService),
+    graph: JSON.parse(container.exportGraph({ format: 'json', root: UserService })),
+  };
+}
@@ -1,10 +1,48 @@
 import 'reflect-metadata';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as independency from './index';
 import {
+  AggregateContainerError,
+  AllowCaptive,
+  AmbiguousDependencyError,
+  AutoMock,
+  CaptiveDependencyError,
+  Config,
+  ConfigError,
+  ConfigValue,
+  Constructor,
   Container,
   ContainerBuilder,
   ContainerError,
+  ContainerModule,
+  CyclicDependencyError,
   Dependency as Dep,
+  DependencyGraph,
+  EnvConfigSource,
+  Factory,
+  FactoryDependency,
+  Inject,
   Injectable,
+  InjectAll,
+  InjectionToken,
+  InjectLazy,
+  InjectFactory,
+  InjectProvider,
+  Lazy,
+  LazyDependency,
+  MissingDependencyError,
+  MultiDependency,
+  Named,
+  Optional,
+  Provider,
+  ProviderDependency,
+  ResolutionError,
+  ResolutionEvent,
+  ResolveEndEvent,
+  ResolveErrorEvent,
+  StartupError,
+  StartupReport,
 } from './container';
 
 describe('Container', () => {
@@ -523,3 +561,3250 @@ describe('Advanced use cases', () => {
     expect(logger.log('test')).toBe('test');
   });
 });
+
+describe('Async resolution', () => {
+  it('should resolve async factories with resolveAsync', async () => {
+    class Pool {
+      constructor(public dsn: string) {}
+    }
+
+    @Injectable()
+    class Repository {
+      constructor(public pool: Pool) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton('dsn', () => 'postgres://localhost');
+    builder.singleton(Pool, async ({ dsn }) => new Pool(dsn), { dsn: new Dep('dsn') });
+    builder.singleton(Repository, Repository);
+
+    const container = builder.build();
+    const repo = await container.resolveAsync(Repository);
+
+    expect(repo).toBeInstanceOf(Repository);
+    expect(repo.pool).toBeInstanceOf(Pool);
+    expect(repo.pool.dsn).toBe('postgres://localhost');
+    expect(await container.resolveAsync(Repository)).toBe(repo);
+  });
+
+  it('should resolve sync registrations with resolveAsync', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('foo', () => 42);
+
+    const container = builder.build();
+    expect(await container.resolveAsync('foo')).toBe(42);
+  });
+
+  it('should reject sync resolve of a key whose graph contains an async factory', () => {
+    class Pool {}
+
+    class Repository {
+      constructor(public pool: Pool) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Pool, async () => new Pool());
+    builder.singleton(Repository, ({ pool }) => new Repository(pool), { pool: new Dep(Pool) });
+    builder.singleton('foo', () => 42);
+
+    const container = builder.build();
+
+    expect(() => container.resolve(Pool)).toThrow(/resolveAsync/);
+    expect(() => container.resolve(Repository)).toThrow(/resolveAsync/);
+    expect(container.resolve('foo')).toBe(42);
+  });
+
+  it('should share one in-flight creation between concurrent callers', async () => {
+    let created = 0;
+
+    const builder = new ContainerBuilder();
+    builder.singleton('client', async () => {
+      created++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { id: created };
+    });
+
+    const container = builder.build();
+    const [first, second] = await Promise.all([
+      container.resolveAsync('client'),
+      container.resolveAsync('client'),
+    ]);
+
+    expect(created).toBe(1);
+    expect(first).toBe(second);
+  });
+
+  it('should resolve independent dependencies in parallel', async () => {
+    const started: string[] = [];
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const builder = new ContainerBuilder();
+    builder.singleton('a', async () => {
+      started.push('a');
+      await gate;
+      return 'a';
+    });
+    builder.singleton('b', async () => {
+      started.push('b');
+      await gate;
+      return 'b';
+    });
+    builder.singleton('pair', ({ a, b }) => [a, b], { a: new Dep('a'), b: new Dep('b') });
+
+    const container = builder.build();
+    const pair = container.resolveAsync('pair');
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(started).toEqual(['a', 'b']);
+
+    release();
+    expect(await pair).toEqual(['a', 'b']);
+  });
+
+  it('should not cache a failed async singleton creation', async () => {
+    let attempts = 0;
+
+    const builder = new ContainerBuilder();
+    builder.singleton('flaky', async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error('connection refused');
+      }
+      return 'connected';
+    });
+
+    const container = builder.build();
+
+    await expect(container.resolveAsync('flaky')).rejects.toThrow('connection refused');
+    expect(await container.resolveAsync('flaky')).toBe('connected');
+  });
+
+  it('should create a new instance per resolveAsync for transients', async () => {
+    class Connection {}
+
+    const builder = new ContainerBuilder();
+    builder.transient(Connection, async () => new Connection());
+
+    const container = builder.build();
+
+    expect(await container.resolveAsync(Connection)).not.toBe(await container.resolveAsync(Connection));
+  });
+
+  it('should support explicitly async factories that are not declared async', async () => {
+    const builder = new ContainerBuilder();
+    builder.register('config', () => Promise.resolve({ port: 3000 }), { isSingleton: true, isAsync: true });
+
+    const container = builder.build();
+
+    expect(() => container.resolve('config')).toThrow(/resolveAsync/);
+    expect(await container.resolveAsync('config')).toEqual({ port: 3000 });
+  });
+
+  it('should track async overrides in test containers', async () => {
+    class Pool {
+      constructor(public name: string) {}
+    }
+
+    class Repository {
+      constructor(public pool: Pool) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Pool, () => new Pool('real'));
+    builder.singleton(Repository, ({ pool }) => new Repository(pool), { pool: new Dep(Pool) });
+
+    const container = builder.build();
+    const testContainer = container.createTestContainer().withOverriddenSingleton(Pool, async () => new Pool('fake'));
+
+    expect(container.resolve(Repository).pool.name).toBe('real');
+    expect(() => testContainer.resolve(Repository)).toThrow(/resolveAsync/);
+    expect((await testContainer.resolveAsync(Repository)).pool.name).toBe('fake');
+  });
+
+  it('should not create a second singleton while resolveAsync is creating it', async () => {
+    let created = 0;
+    const builder = new ContainerBuilder();
+    builder.singleton('settings', () => ({ id: ++created }));
+    const container = builder.build();
+
+    const pending = container.resolveAsync('settings');
+    expect(() => container.resolve('settings')).toThrow(
+      'Type settings is being created by resolveAsync, await it instead of using resolve'
+    );
+
+    const settings = await pending;
+    expect(container.resolve('settings')).toBe(settings);
+    expect(created).toBe(1);
+  });
+
+  it('should not cache a promise returned by a factory that is not declared async', async () => {
+    const pool = { size: 10 };
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => Promise.resolve(pool));
+    builder.singleton('failing', () => Promise.reject(new Error('Connection refused')));
+    const container = builder.build();
+
+    expect(() => container.resolve('pool')).toThrow('Factory of pool returned a promise, use resolveAsync instead of resolve');
+    expect(() => container.resolve('failing')).toThrow(ResolutionError);
+    expect(await container.resolveAsync('pool')).toBe(pool);
+    expect(container.resolve('pool')).toBe(pool);
+  });
+});
+
+describe('Disposal', () => {
+  it('should dispose singletons in reverse dependency order', async () => {
+    const disposed: string[] = [];
+
+    class Pool {
+      dispose() {
+        disposed.push('pool');
+      }
+    }
+
+    @Injectable()
+    class Repository {
+      constructor(public pool: Pool) {}
+
+      [Symbol.dispose]() {
+        disposed.push('repository');
+      }
+    }
+
+    @Injectable()
+    class Service {
+      constructor(public repo: Repository) {}
+
+      async [Symbol.asyncDispose]() {
+        disposed.push('service');
+      }
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Pool, () => new Pool());
+    builder.singleton(Repository, Repository);
+    builder.singleton(Service, Service);
+
+    const container = builder.build();
+    container.resolve(Service);
+    await container.dispose();
+
+    expect(disposed).toEqual(['service', 'repository', 'pool']);
+  });
+
+  it('should dispose dependents before the lazy and provider dependencies they created later', async () => {
+    const disposed: string[] = [];
+    const disposable = (name: string, deps: Record<string, any> = {}) => ({ ...deps, dispose: () => void disposed.push(name) });
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => disposable('pool'));
+    builder.singleton('repository', ({ pool }) => disposable('repository', { pool }), { pool: new LazyDependency('pool') });
+    builder.singleton('mailer', () => disposable('mailer'));
+    builder.transient('transport', ({ mailer }) => ({ mailer }), { mailer: new Dep('mailer') });
+    builder.singleton('notifier', ({ transport }) => disposable('notifier', { transport }), {
+      transport: new ProviderDependency('transport'),
+    });
+    const container = builder.build();
+
+    container.resolve<{ pool: Lazy<unknown> }>('repository').pool.value;
+    container.resolve<{ transport: Provider<unknown> }>('notifier').transport();
+    await container.dispose();
+
+    expect(disposed).toEqual(['notifier', 'mailer', 'repository', 'pool']);
+  });
+
+  it('should prefer the registration disposer over instance methods', async () => {
+    const closed: string[] = [];
+
+    class Client {
+      dispose() {
+        closed.push('method');
+      }
+
+      close() {
+        closed.push('disposer');
+      }
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Client, () => new Client(), {}, { dispose: client => client.close() });
+
+    const container = builder.build();
+    container.resolve(Client);
+    await container.dispose();
+
+    expect(closed).toEqual(['disposer']);
+  });
+
+  it('should only dispose instances that were created', async () => {
+    const disposed: string[] = [];
+
+    const builder = new ContainerBuilder();
+    builder.singleton('a', () => ({ dispose: () => disposed.push('a') }));
+    builder.singleton('b', () => ({ dispose: () => disposed.push('b') }));
+
+    const container = builder.build();
+    container.resolve('b');
+    await container.dispose();
+
+    expect(disposed).toEqual(['b']);
+  });
+
+  it('should dispose async singletons but leave transients to their caller', async () => {
+    const disposed: string[] = [];
+
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', async () => ({ dispose: async () => disposed.push('pool') }));
+    builder.transient('session', ({ pool }) => ({ pool, dispose: () => disposed.push('session') }), {
+      pool: new Dep('pool'),
+    });
+
+    const container = builder.build();
+    await container.resolveAsync('session');
+    await container.resolveAsync('session');
+    await container.dispose();
+
+    expect(disposed).toEqual(['pool']);
+  });
+
+  it('should dispose singletons whose creation was in flight', async () => {
+    const disposed: string[] = [];
+    let connect!: () => void;
+    const connected = new Promise<void>(resolve => (connect = resolve));
+
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', async () => {
+      await connected;
+      return { dispose: () => disposed.push('pool') };
+    });
+
+    const container = builder.build();
+    const pool = container.resolveAsync('pool');
+    const disposing = container.dispose();
+    connect();
+    await disposing;
+
+    await expect(pool).resolves.toBeDefined();
+    expect(disposed).toEqual(['pool']);
+  });
+
+  it('should let every dispose call wait for the same teardown', async () => {
+    const disposed: string[] = [];
+    let close!: () => void;
+    const closed = new Promise<void>(resolve => (close = resolve));
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => ({ dispose: () => closed.then(() => disposed.push('pool')) }));
+    const container = builder.build();
+    container.resolve('pool');
+
+    const first = container.dispose();
+    const second = container.dispose();
+    expect(second).toBe(first);
+    setTimeout(close, 10);
+    await second;
+
+    expect(disposed).toEqual(['pool']);
+  });
+
+  it('should collect disposal errors into an aggregate error', async () => {
+    const disposed: string[] = [];
+
+    const builder = new ContainerBuilder();
+    builder.singleton('a', () => ({
+      dispose: () => {
+        throw new Error('a failed');
+      },
+    }));
+    builder.singleton('b', () => ({ dispose: () => disposed.push('b') }));
+    builder.singleton('c', () => ({
+      dispose: async () => {
+        throw new Error('c failed');
+      },
+    }));
+
+    const container = builder.build();
+    container.resolve('a');
+    container.resolve('b');
+    container.resolve('c');
+
+    const error = await container.dispose().catch(e => e);
+
+    expect(error).toBeInstanceOf(AggregateContainerError);
+    expect(error).toBeInstanceOf(ContainerError);
+    expect(error.message).toBe('Failed to dispose c, a');
+    expect(error.errors.map((e: Error) => e.message)).toEqual(['c failed', 'a failed']);
+    expect(disposed).toEqual(['b']);
+  });
+
+  it('should refuse to resolve after disposal', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('foo', () => 42);
+
+    const container = builder.build();
+    container.resolve('foo');
+    await container.dispose();
+
+    expect(() => container.resolve('foo')).toThrow('Container is disposed');
+    await expect(container.resolveAsync('foo')).rejects.toThrow('Container is disposed');
+    await expect(container.dispose()).resolves.toBeUndefined();
+  });
+
+  it('should not dispose the container registered as a dependency', async () => {
+    const builder = new ContainerBuilder();
+    const container = builder.build();
+
+    expect(container.resolve(Container)).toBe(container);
+    await expect(container.dispose()).resolves.toBeUndefined();
+  });
+
+  it('should work with await using', async () => {
+    const disposed: string[] = [];
+
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => ({ dispose: () => disposed.push('pool') }));
+
+    {
+      await using container = builder.build();
+      container.resolve('pool');
+    }
+
+    expect(disposed).toEqual(['pool']);
+  });
+});
+
+describe('Scoped lifetime', () => {
+  it('should share scoped instances within a scope only', () => {
+    class UnitOfWork {}
+
+    @Injectable()
+    class OrderService {
+      constructor(public uow: UnitOfWork) {}
+    }
+
+    @Injectable()
+    class PaymentService {
+      constructor(public uow: UnitOfWork) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.scoped(UnitOfWork, () => new UnitOfWork());
+    builder.transient(OrderService, OrderService);
+    builder.transient(PaymentService, PaymentService);
+
+    const container = builder.build();
+    const first = container.createScope();
+    const second = container.createScope();
+
+    expect(first.resolve(OrderService).uow).toBe(first.resolve(PaymentService).uow);
+    expect(first.resolve(UnitOfWork)).not.toBe(second.resolve(UnitOfWork));
+  });
+
+  it('should share root singletons with scopes', () => {
+    class Pool {}
+
+    @Injectable()
+    class UnitOfWork {
+      constructor(public pool: Pool) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Pool, () => new Pool());
+    builder.scoped(UnitOfWork, UnitOfWork);
+
+    const container = builder.build();
+    const first = container.createScope();
+    const second = container.createScope();
+
+    expect(first.resolve(UnitOfWork).pool).toBe(container.resolve(Pool));
+    expect(second.resolve(UnitOfWork).pool).toBe(container.resolve(Pool));
+  });
+
+  it('should throw when resolving a scoped key from the root container', () => {
+    class UnitOfWork {}
+
+    const builder = new ContainerBuilder();
+    builder.scoped(UnitOfWork, () => new UnitOfWork());
+
+    const container = builder.build();
+
+    expect(() => container.resolve(UnitOfWork)).toThrow(/scoped.*createScope/);
+  });
+
+  it('should throw when a singleton depends on a scoped key', () => {
+    class UnitOfWork {}
+
+    class Repository {
+      constructor(public uow: UnitOfWork) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.scoped(UnitOfWork, () => new UnitOfWork());
+    builder.singleton(Repository, ({ uow }) => new Repository(uow), { uow: new Dep(UnitOfWork) });
+
+    const scope = builder.build().createScope();
+
+    expect(() => scope.resolve(Repository)).toThrow(ContainerError);
+  });
+
+  it('should inject the scope itself as Container', () => {
+    class UnitOfWork {}
+
+    const builder = new ContainerBuilder();
+    builder.scoped(UnitOfWork, () => new UnitOfWork());
+    builder.transient('uowFactory', ({ container }) => () => container.resolve(UnitOfWork), {
+      container: new Dep(Container),
+    });
+
+    const scope = builder.build().createScope();
+    const getUow = scope.resolve('uowFactory') as () => UnitOfWork;
+
+    expect(scope.resolve(Container)).toBe(scope);
+    expect(getUow()).toBe(scope.resolve(UnitOfWork));
+  });
+
+  it('should resolve scoped async factories', async () => {
+    class Transaction {}
+
+    const builder = new ContainerBuilder();
+    builder.scoped(Transaction, async () => new Transaction());
+
+    const container = builder.build();
+    const scope = container.createScope();
+
+    await expect(container.resolveAsync(Transaction)).rejects.toThrow(/scoped/);
+    expect(await scope.resolveAsync(Transaction)).toBe(await scope.resolveAsync(Transaction));
+  });
+
+  it('should dispose scoped instances with the scope and keep root singletons alive', async () => {
+    const disposed: string[] = [];
+
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => ({ dispose: () => disposed.push('pool') }));
+    builder.scoped('transaction', ({ pool }) => ({ pool, dispose: () => disposed.push('transaction') }), {
+      pool: new Dep('pool'),
+    });
+
+    const container = builder.build();
+    const scope = container.createScope();
+    scope.resolve('transaction');
+    await scope.dispose();
+
+    expect(disposed).toEqual(['transaction']);
+    expect(() => scope.resolve('transaction')).toThrow('Container is disposed');
+
+    await container.dispose();
+    expect(disposed).toEqual(['transaction', 'pool']);
+  });
+
+  it('should support scoped lifetime in register and overrides', () => {
+    class UnitOfWork {
+      constructor(public fake = false) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.register(UnitOfWork, () => new UnitOfWork(), { lifetime: 'scoped' });
+
+    const testContainer = builder
+      .build()
+      .createTestContainer()
+      .withOverridden(UnitOfWork, () => new UnitOfWork(true), 'scoped');
+    const scope = testContainer.createScope();
+
+    expect(scope.resolve(UnitOfWork).fake).toBe(true);
+    expect(scope.resolve(UnitOfWork)).toBe(scope.resolve(UnitOfWork));
+    expect(() => testContainer.resolve(UnitOfWork)).toThrow(/scoped/);
+  });
+
+  it('should not create singletons through scopes of a disposed root', async () => {
+    let created = 0;
+    let disposed = 0;
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => ({ id: ++created, dispose: () => void disposed++ }));
+    builder.singleton('cache', async () => ({ id: ++created }));
+
+    const container = builder.build();
+    const scope = container.createScope();
+    scope.resolve('pool');
+    await container.dispose();
+
+    expect(() => scope.resolve('pool')).toThrow('Container is disposed');
+    await expect(scope.resolveAsync('cache')).rejects.toThrow('Container is disposed');
+    expect(created).toBe(1);
+    expect(disposed).toBe(1);
+  });
+});
+
+describe('Multi-bindings', () => {
+  interface HealthCheck {
+    name: string;
+  }
+
+  const HEALTH_CHECK = Symbol('HealthCheck');
+
+  it('should resolve all multi-bindings in registration order', () => {
+    const builder = new ContainerBuilder();
+    builder.multi(HEALTH_CHECK, () => ({ name: 'db' }));
+    builder.multi(HEALTH_CHECK, () => ({ name: 'cache' }));
+    builder.multi(HEALTH_CHECK, () => ({ name: 'queue' }));
+
+    const container = builder.build();
+    const checks = container.resolveAll<HealthCheck>(HEALTH_CHECK);
+
+    expect(checks.map(check => check.name)).toEqual(['db', 'cache', 'queue']);
+    expect(container.resolveAll(HEALTH_CHECK)).toEqual(checks);
+    expect(container.resolveAll(HEALTH_CHECK)[0]).toBe(checks[0]);
+  });
+
+  it('should return an empty array for keys without multi-bindings', () => {
+    const container = new ContainerBuilder().build();
+
+    expect(container.resolveAll(HEALTH_CHECK)).toEqual([]);
+  });
+
+  it('should inject multi-bindings through MultiDependency and @InjectAll', () => {
+    class Database {}
+
+    @Injectable()
+    class Monitor {
+      constructor(@InjectAll(HEALTH_CHECK) public checks: HealthCheck[]) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, () => new Database());
+    builder.multi(HEALTH_CHECK, ({ db }) => ({ name: 'db', db }), { db: new Dep(Database) });
+    builder.multi(HEALTH_CHECK, () => ({ name: 'cache' }), {}, { lifetime: 'transient' });
+    builder.singleton(Monitor, Monitor);
+    builder.singleton('names', ({ checks }) => checks.map((check: HealthCheck) => check.name), {
+      checks: new MultiDependency(HEALTH_CHECK),
+    });
+
+    const container = builder.build();
+    const monitor = container.resolve(Monitor);
+
+    expect(monitor.checks.map(check => check.name)).toEqual(['db', 'cache']);
+    expect(container.resolve('names')).toEqual(['db', 'cache']);
+    expect(container.resolveAll<HealthCheck>(HEALTH_CHECK)[1]).not.toBe(monitor.checks[1]);
+  });
+
+  it('should validate every multi-binding at build time', () => {
+    class Database {}
+
+    const builder = new ContainerBuilder();
+    builder.multi(HEALTH_CHECK, () => ({ name: 'cache' }));
+    builder.multi(HEALTH_CHECK, ({ db }) => ({ name: 'db', db }), { db: new Dep(Database) });
+
+    expect(() => builder.build()).toThrow(/No dependency of type Database/);
+  });
+
+  it('should detect cycles through multi-bindings', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('monitor', ({ checks }) => checks, { checks: new MultiDependency(HEALTH_CHECK) });
+    builder.multi(HEALTH_CHECK, ({ monitor }) => ({ name: 'self', monitor }), { monitor: new Dep('monitor') });
+
+    expect(() => builder.build()).toThrow(/Cycle/);
+  });
+
+  it('should not mix single and multi registrations for one key', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('single', () => 1);
+    builder.multi(HEALTH_CHECK, () => ({ name: 'db' }));
+
+    expect(() => builder.multi('single', () => 2)).toThrow(ContainerError);
+    expect(() => builder.singleton(HEALTH_CHECK, () => ({ name: 'db' }))).toThrow(/multi-binding/);
+  });
+
+  it('should resolve async multi-bindings with resolveAllAsync', async () => {
+    const builder = new ContainerBuilder();
+    builder.multi(HEALTH_CHECK, async () => ({ name: 'db' }));
+    builder.multi(HEALTH_CHECK, () => ({ name: 'cache' }));
+    builder.singleton('monitor', ({ checks }) => checks, { checks: new MultiDependency(HEALTH_CHECK) });
+
+    const container = builder.build();
+
+    expect(() => container.resolve('monitor')).toThrow(/resolveAsync/);
+    expect((await container.resolveAllAsync<HealthCheck>(HEALTH_CHECK)).map(check => check.name)).toEqual([
+      'db',
+      'cache',
+    ]);
+    expect(await container.resolveAsync('monitor')).toHaveLength(2);
+  });
+
+  it('should not be affected by multi-bindings added after build', () => {
+    const builder = new ContainerBuilder();
+    builder.multi(HEALTH_CHECK, () => ({ name: 'db' }));
+
+    const container = builder.build();
+    builder.multi(HEALTH_CHECK, () => ({ name: 'cache' }));
+
+    expect(container.resolveAll(HEALTH_CHECK)).toHaveLength(1);
+    expect(container.getRegisteredDeps().has(HEALTH_CHECK)).toBe(true);
+  });
+});
+
+describe('Injection tokens', () => {
+  class Database {
+    constructor(public url: string) {}
+  }
+
+  it('should resolve typed values registered under a token', () => {
+    const DB = new InjectionToken<Database>('db');
+    const PORT = new InjectionToken<number>('port');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(DB, () => new Database('postgres://localhost'));
+    builder.transient(PORT, () => 5432);
+
+    const container = builder.build();
+    const db: Database = container.resolve(DB);
+    const port: number = container.resolve(PORT);
+
+    expect(db.url).toBe('postgres://localhost');
+    expect(port).toBe(5432);
+    expect(container.getRegisteredDeps().has(DB)).toBe(true);
+  });
+
+  it('should inject tokens through Dependency and constructor kwargs', () => {
+    const URL = new InjectionToken<string>('url');
+    const DB = new InjectionToken<Database>('db');
+
+    @Injectable()
+    class Repository {
+      constructor(public db: Database) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(URL, () => 'postgres://localhost');
+    builder.singleton(DB, ({ url }) => new Database(url), { url: new Dep(URL) });
+    builder.singleton(Repository, ({ db }) => new Repository(db), { db: new Dep(DB) });
+
+    const container = builder.build();
+
+    expect(container.resolve(Repository).db).toBe(container.resolve(DB));
+  });
+
+  it('should override token registrations in test containers', () => {
+    const DB = new InjectionToken<Database>('db');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(DB, () => new Database('real'));
+
+    const testContainer = builder
+      .build()
+      .createTestContainer()
+      .withOverriddenSingleton(DB, () => new Database('fake'));
+
+    expect(testContainer.resolve(DB).url).toBe('fake');
+  });
+
+  it('should reject factories not matching the token type at compile time', () => {
+    const DB = new InjectionToken<Database>('db');
+    const builder = new ContainerBuilder();
+
+    // @ts-expect-error factory must return a Database
+    builder.singleton(DB, () => 'postgres://localhost');
+    const testContainer = builder.build().createTestContainer();
+    // @ts-expect-error override must return a Database
+    testContainer.withOverriddenSingleton(DB, () => 42);
+    // @ts-expect-error resolved value is a Database
+    const port: number = testContainer.resolve(DB);
+
+    expect(port).toBe('postgres://localhost');
+  });
+
+  it('should use the token description in error messages', () => {
+    const DB = new InjectionToken<Database>('db');
+
+    @Injectable()
+    class Repository {
+      constructor(public db: Database) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Repository, ({ db }) => new Repository(db), { db: new Dep(DB) });
+
+    expect(() => builder.build()).toThrow('No dependency of type db needed by Repository');
+    expect(() => new ContainerBuilder().build().resolve(DB)).toThrow('No dependency of type db');
+  });
+});
+
+describe('Key identity', () => {
+  function createClientClass(url: string) {
+    return class Client {
+      url = url;
+    };
+  }
+
+  it('should keep classes with the same name apart', () => {
+    const BillingClient = createClientClass('billing');
+    const SearchClient = createClientClass('search');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(BillingClient, () => new BillingClient());
+    builder.singleton(SearchClient, () => new SearchClient());
+
+    const container = builder.build();
+
+    expect(container.resolve(BillingClient).url).toBe('billing');
+    expect(container.resolve(SearchClient).url).toBe('search');
+  });
+
+  it('should keep symbols with the same description apart', () => {
+    const first = Symbol('db');
+    const second = Symbol('db');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(first, () => 'first');
+    builder.singleton(second, () => 'second');
+
+    const container = builder.build();
+
+    expect(container.resolve(first)).toBe('first');
+    expect(container.resolve(second)).toBe('second');
+  });
+
+  it('should keep string keys apart from classes with the same name', () => {
+    class Foo {}
+
+    const builder = new ContainerBuilder();
+    builder.singleton('Foo', () => 'string');
+    builder.singleton(Foo, () => new Foo());
+
+    const container = builder.build();
+
+    expect(container.resolve('Foo')).toBe('string');
+    expect(container.resolve(Foo)).toBeInstanceOf(Foo);
+  });
+
+  it('should keep tokens with the same description apart', () => {
+    const first = new InjectionToken<string>('db');
+    const second = new InjectionToken<string>('db');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(first, () => 'first');
+    builder.singleton(second, () => 'second');
+    builder.singleton('db', () => 'string');
+
+    const container = builder.build();
+
+    expect(container.resolve(first)).toBe('first');
+    expect(container.resolve(second)).toBe('second');
+    expect(container.resolve('db')).toBe('string');
+  });
+
+  it('should resolve reflected types by identity', () => {
+    const OtherDatabase = (() => {
+      class Database {}
+      return Database;
+    })();
+
+    class Database {}
+
+    @Injectable()
+    class Repository {
+      constructor(public db: Database) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(OtherDatabase, () => new OtherDatabase());
+    builder.singleton(Repository, Repository);
+
+    expect(() => builder.build()).toThrow('No dependency of type Database needed by Repository');
+
+    builder.singleton(Database, () => new Database());
+    const container = builder.build();
+
+    expect(container.resolve(Repository).db).toBeInstanceOf(Database);
+    expect(container.resolve(Repository).db).not.toBeInstanceOf(OtherDatabase);
+  });
+
+  it('should override by identity in test containers', () => {
+    const BillingClient = createClientClass('billing');
+    const SearchClient = createClientClass('search');
+
+    const builder = new ContainerBuilder();
+    builder.singleton(BillingClient, () => new BillingClient());
+    builder.singleton(SearchClient, () => new SearchClient());
+
+    const testContainer = builder
+      .build()
+      .createTestContainer()
+      .withOverriddenSingleton(SearchClient, () => ({ url: 'fake' }));
+
+    expect(testContainer.resolve(BillingClient).url).toBe('billing');
+    expect(testContainer.resolve(SearchClient).url).toBe('fake');
+    expect(() => testContainer.withOverriddenSingleton(createClientClass('other'), () => ({ url: 'x' }))).toThrow(
+      ContainerError
+    );
+  });
+});
+
+describe('Parameter decorators', () => {
+  interface Logger {
+    log(message: string): string;
+  }
+
+  const LOGGER = new InjectionToken<Logger>('Logger');
+
+  it('should inject explicit keys with @Inject', () => {
+    class Database {}
+
+    @Injectable()
+    class Service {
+      constructor(
+        @Inject(LOGGER) public logger: Logger,
+        public db: Database,
+        @Inject('timeout') public timeout: number
+      ) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(LOGGER, () => ({ log: (message: string) => message }));
+    builder.singleton(Database, () => new Database());
+    builder.singleton('timeout', () => 30);
+    builder.singleton(Service, Service);
+
+    const service = builder.build().resolve(Service);
+
+    expect(service.logger.log('hello')).toBe('hello');
+    expect(service.db).toBeInstanceOf(Database);
+    expect(service.timeout).toBe(30);
+  });
+
+  it('should inject undefined for unregistered @Optional parameters', () => {
+    class Cache {}
+
+    @Injectable()
+    class Service {
+      constructor(
+        @Optional() public cache?: Cache,
+        @Optional() @Inject(LOGGER) public logger?: Logger
+      ) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Service, Service);
+
+    const service = builder.build().resolve(Service);
+
+    expect(service.cache).toBeUndefined();
+    expect(service.logger).toBeUndefined();
+  });
+
+  it('should inject registered @Optional parameters and validate them', () => {
+    class Cache {}
+
+    @Injectable()
+    class Service {
+      constructor(@Optional() public cache?: Cache) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Cache, ({ store }) => Object.assign(new Cache(), { store }), { store: new Dep('store') });
+    builder.singleton(Service, Service);
+
+    expect(() => builder.build()).toThrow('No dependency of type store needed by Cache');
+
+    builder.singleton('store', () => new Map());
+    const service = builder.build().resolve(Service);
+
+    expect(service.cache).toBeInstanceOf(Cache);
+  });
+
+  it('should resolve @Optional parameters with resolveAsync', async () => {
+    class Cache {}
+
+    @Injectable()
+    class Service {
+      constructor(@Optional() public cache?: Cache) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Service, Service);
+
+    expect((await builder.build().resolveAsync(Service)).cache).toBeUndefined();
+  });
+
+  it('should not resolve interface-typed parameters as Object', () => {
+    @Injectable()
+    class Service {
+      constructor(public logger: Logger) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton('logger', () => ({ log: (message: string) => message }));
+    builder.singleton(Service, Service);
+
+    expect(builder.build().resolve(Service).logger.log('hi')).toBe('hi');
+  });
+
+  it('should resolve decorated parameters of minified classes', () => {
+    class Database {}
+
+    // Shape of a class after terser/esbuild: mangled names and no design:paramtypes
+    const Minified: Constructor = new Function('return class x{constructor(e,t){this.db=e,this.logger=t}}')();
+    Inject(Database)(Minified, undefined, 0);
+    Inject(LOGGER)(Minified, undefined, 1);
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, () => new Database());
+    builder.singleton(LOGGER, () => ({ log: (message: string) => message }));
+    builder.singleton(Minified, Minified);
+
+    const instance = builder.build().resolve(Minified);
+
+    expect(instance.db).toBeInstanceOf(Database);
+    expect(instance.logger.log('hi')).toBe('hi');
+  });
+
+  it('should resolve decorated parameters of classes without a parseable constructor', () => {
+    class Database {}
+
+    // Minifiers may emit methods before the constructor
+    const Minified: Constructor = new Function('return class x{get a(){return this.b}constructor(e){this.b=e}}')();
+    Inject(Database)(Minified, undefined, 0);
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, () => new Database());
+    builder.singleton(Minified, Minified);
+
+    expect(builder.build().resolve(Minified).a).toBeInstanceOf(Database);
+  });
+
+  it('should parse factory parameters with complex default values and nested destructuring', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('a', () => 1);
+    builder.singleton('b', () => 2);
+    builder.singleton('c', () => 3);
+    builder.singleton(
+      'sum',
+      ({ a, b: { value } = { value: Math.max(1, 2) }, c }: any) => a + value + c,
+      { b: { value: 10 } }
+    );
+
+    expect(builder.build().resolve('sum')).toBe(14);
+    expect(() =>
+      builder.singleton('list', (a: number, b = [1, 2].map(x => x * 2), c = 0) => [a, b, c], { c: 5 })
+    ).not.toThrow();
+  });
+});
+
+describe('Lazy and provider injection', () => {
+  it('should break cycles with a lazy edge', () => {
+    class EventBus {
+      constructor(public subscribers: Lazy<Subscriber[]>) {}
+
+      publish(event: string) {
+        return this.subscribers.value.map(subscriber => subscriber.handle(event));
+      }
+    }
+
+    class Subscriber {
+      constructor(public bus: EventBus) {}
+
+      handle(event: string) {
+        return `handled ${event}`;
+      }
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(EventBus, ({ subscribers }) => new EventBus(subscribers), {
+      subscribers: new LazyDependency('subscribers'),
+    });
+    builder.singleton(Subscriber, ({ bus }) => new Subscriber(bus), { bus: new Dep(EventBus) });
+    builder.singleton('subscribers', ({ subscriber }) => [subscriber], { subscriber: new Dep(Subscriber) });
+
+    const container = builder.build();
+    const bus = container.resolve(EventBus);
+
+    expect(bus.publish('created')).toEqual(['handled created']);
+    expect(bus.subscribers.value[0].bus).toBe(bus);
+    expect(bus.subscribers.value).toBe(bus.subscribers.value);
+  });
+
+  it('should still reject cycles made only of direct edges', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('a', ({ b }) => ({ b }), { b: new Dep('b') });
+    builder.singleton('b', ({ c }) => ({ c }), { c: new LazyDependency('c') });
+    builder.singleton('c', ({ d }) => ({ d }), { d: new Dep('d') });
+    builder.singleton('d', ({ c }) => ({ c }), { c: new Dep('c') });
+
+    expect(() => builder.build()).toThrow(/Cycle/);
+  });
+
+  it('should validate that lazy targets exist', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('a', ({ b }) => ({ b }), { b: new LazyDependency('b') });
+
+    expect(() => builder.build()).toThrow('No dependency of type b needed by a');
+  });
+
+  it('should create a fresh transient on each provider call', () => {
+    class Handler {}
+
+    class Dispatcher {
+      constructor(public createHandler: Provider<Handler>) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.transient(Handler, () => new Handler());
+    builder.singleton(Dispatcher, ({ createHandler }) => new Dispatcher(createHandler), {
+      createHandler: new ProviderDependency(Handler),
+    });
+
+    const dispatcher = builder.build().resolve(Dispatcher);
+    const first = dispatcher.createHandler();
+
+    expect(first).toBeInstanceOf(Handler);
+    expect(dispatcher.createHandler()).not.toBe(first);
+  });
+
+  it('should inject lazy and provider parameters with decorators', () => {
+    let created = 0;
+
+    class Connection {
+      constructor() {
+        created++;
+      }
+    }
+
+    @Injectable()
+    class Service {
+      constructor(
+        @InjectLazy(Connection) public connection: Lazy<Connection>,
+        @InjectProvider(Connection) public connect: Provider<Connection>
+      ) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.transient(Connection, () => new Connection());
+    builder.singleton(Service, Service);
+
+    const service = builder.build().resolve(Service);
+    expect(created).toBe(0);
+
+    expect(service.connection.value).toBe(service.connection.value);
+    expect(created).toBe(1);
+
+    expect(service.connect()).not.toBe(service.connect());
+    expect(created).toBe(3);
+  });
+
+  it('should break constructor cycles with @InjectLazy', () => {
+    @Injectable()
+    class Parent {
+      constructor(@InjectLazy('child') public child: Lazy<{ parent: Parent }>) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Parent, Parent);
+    builder.singleton('child', ({ parent }) => ({ parent }), { parent: new Dep(Parent) });
+
+    const parent = builder.build().resolve(Parent);
+
+    expect(parent.child.value.parent).toBe(parent);
+  });
+
+  it('should inject lazy dependencies with resolveAsync', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('config', () => ({ port: 3000 }));
+    builder.singleton('server', async ({ config }) => ({ config }), { config: new LazyDependency('config') });
+
+    const server = (await builder.build().resolveAsync('server')) as { config: Lazy<{ port: number }> };
+
+    expect(server.config).toBeInstanceOf(Lazy);
+    expect(server.config.value.port).toBe(3000);
+  });
+});
+
+describe('Graph export', () => {
+  class Database {}
+
+  @Injectable()
+  class Repository {
+    constructor(public db: Database) {}
+  }
+
+  class OrderService {
+    constructor(public repo: Repository) {}
+  }
+
+  function createBuilder(): ContainerBuilder {
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, () => new Database());
+    builder.transient(Repository, Repository);
+    builder.singleton(OrderService, ({ repo }) => new OrderService(repo), { repo: new Dep(Repository) });
+    builder.singleton('unrelated', () => 1);
+    return builder;
+  }
+
+  it('should export the graph as JSON with lifetimes and edge sources', () => {
+    const graph: DependencyGraph = JSON.parse(createBuilder().build().exportGraph({ format: 'json' }));
+
+    const ids = Object.fromEntries(graph.nodes.map(node => [node.name, node.id]));
+    expect(graph.nodes).toContainEqual({ id: ids.Database, name: 'Database', lifetime: 'singleton' });
+    expect(graph.nodes).toContainEqual({ id: ids.Repository, name: 'Repository', lifetime: 'transient' });
+    expect(graph.nodes.map(node => node.name)).toEqual(
+      expect.arrayContaining(['OrderService', 'unrelated', 'Container'])
+    );
+    expect(graph.edges).toEqual(
+      expect.arrayContaining([
+        { from: ids.OrderService, to: ids.Repository, parameter: 'repo', source: 'kwargs', multi: false },
+        { from: ids.Repository, to: ids.Database, parameter: 'db', source: 'reflection', multi: false },
+      ])
+    );
+    expect(graph.edges).toHaveLength(2);
+  });
+
+  it('should export only the subgraph reachable from a root key', () => {
+    const graph: DependencyGraph = JSON.parse(
+      createBuilder().build().exportGraph({ format: 'json', root: OrderService })
+    );
+
+    expect(graph.nodes.map(node => node.name)).toEqual(['OrderService', 'Repository', 'Database']);
+    expect(graph.edges.map(edge => [edge.from, edge.to])).toEqual([
+      ['n1', 'n2'],
+      ['n0', 'n1'],
+    ]);
+  });
+
+  it('should export the graph in DOT format', () => {
+    const dot = createBuilder().build().exportGraph({ format: 'dot', root: OrderService });
+
+    expect(dot).toBe(
+      [
+        'digraph Dependencies {',
+        '  n0 [label="OrderService\\n(singleton)"];',
+        '  n1 [label="Repository\\n(transient)"];',
+        '  n2 [label="Database\\n(singleton)"];',
+        '  n1 -> n2 [label="db (reflection)"];',
+        '  n0 -> n1 [label="repo (kwargs)"];',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should export the graph in Mermaid format', () => {
+    const mermaid = createBuilder().build().exportGraph({ format: 'mermaid', root: OrderService });
+
+    expect(mermaid).toBe(
+      [
+        'graph TD',
+        '  n0["OrderService (singleton)"]',
+        '  n1["Repository (transient)"]',
+        '  n2["Database (singleton)"]',
+        '  n1 -->|"db (reflection)"| n2',
+        '  n0 -->|"repo (kwargs)"| n1',
+      ].join('\n')
+    );
+  });
+
+  it('should export multi-bindings, decorated and deferred edges', () => {
+    const HANDLER = Symbol('Handler');
+
+    @Injectable()
+    class Bus {
+      constructor(
+        @InjectAll(HANDLER) public handlers: unknown[],
+        @InjectLazy('audit') public audit: Lazy<unknown>
+      ) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.multi(HANDLER, () => 'first');
+    builder.multi(HANDLER, () => 'second');
+    builder.singleton('audit', () => 'audit');
+    builder.singleton(Bus, Bus);
+
+    const container = builder.build();
+    const graph: DependencyGraph = JSON.parse(container.exportGraph({ format: 'json', root: Bus }));
+
+    expect(graph.nodes.map(node => node.name)).toEqual([
+      'Bus',
+      'Symbol(Handler)[0]',
+      'Symbol(Handler)[1]',
+      'audit',
+    ]);
+    expect(graph.edges).toEqual([
+      { from: 'n0', to: 'n1', parameter: 'handlers', source: 'decorator', multi: true },
+      { from: 'n0', to: 'n2', parameter: 'handlers', source: 'decorator', multi: true },
+      { from: 'n0', to: 'n3', parameter: 'audit', source: 'decorator', multi: false, deferred: 'lazy' },
+    ]);
+    expect(container.exportGraph({ format: 'dot', root: Bus })).toContain(
+      'n0 -> n3 [label="audit (decorator)", style=dashed];'
+    );
+    expect(container.exportGraph({ format: 'mermaid', root: HANDLER })).toBe(
+      ['graph TD', '  n0["Symbol(Handler)[0] (singleton)"]', '  n1["Symbol(Handler)[1] (singleton)"]'].join('\n')
+    );
+  });
+
+  it('should throw for an unknown root key', () => {
+    expect(() => createBuilder().build().exportGraph({ format: 'dot', root: 'missing' })).toThrow(
+      'No dependency of type missing'
+    );
+  });
+});
+
+describe('Resolution errors', () => {
+  class HttpClient {
+    constructor(public orders: unknown) {}
+  }
+  class PaymentClient {
+    constructor(public http: HttpClient) {}
+  }
+  class OrderService {
+    constructor(public payments: PaymentClient) {}
+  }
+  class App {
+    constructor(public orders: OrderService) {}
+  }
+
+  function captureError(action: () => unknown): any {
+    try {
+      action();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected an error');
+  }
+
+  it('should report the full path of a dependency cycle', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(App, App, { orders: new Dep(OrderService) });
+    builder.singleton(OrderService, OrderService, { payments: new Dep(PaymentClient) });
+    builder.transient(PaymentClient, PaymentClient, { http: new Dep(HttpClient) });
+    builder.singleton(HttpClient, HttpClient, { orders: new Dep(OrderService) });
+
+    const error = captureError(() => builder.build());
+
+    expect(error).toBeInstanceOf(CyclicDependencyError);
+    expect(error).toBeInstanceOf(ContainerError);
+    expect(error.message).toBe(
+      'Cycle dependencies for type OrderService: App -> OrderService -> PaymentClient -> HttpClient -> OrderService'
+    );
+    expect(error.path).toEqual([
+      { key: App, name: 'App', lifetime: 'singleton' },
+      { key: OrderService, name: 'OrderService', lifetime: 'singleton', parameter: 'orders' },
+      { key: PaymentClient, name: 'PaymentClient', lifetime: 'transient', parameter: 'payments' },
+      { key: HttpClient, name: 'HttpClient', lifetime: 'singleton', parameter: 'http' },
+      { key: OrderService, name: 'OrderService', lifetime: 'singleton', parameter: 'orders' },
+    ]);
+  });
+
+  it('should report the full path and suggestions for a missing dependency', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(App, App, { orders: new Dep(OrderService) });
+    builder.singleton(OrderService, OrderService, { payments: new Dep(PaymentClient) });
+    builder.singleton(PaymentClient, PaymentClient, { http: new Dep('httpClient') });
+    builder.singleton('HttpClients', () => []);
+
+    const error = captureError(() => builder.build());
+
+    expect(error).toBeInstanceOf(MissingDependencyError);
+    expect(error.message).toBe(
+      'No dependency of type httpClient needed by PaymentClient: App -> OrderService -> PaymentClient -> httpClient. ' +
+        'Did you mean HttpClients?'
+    );
+    expect(error.suggestions).toEqual(['HttpClients']);
+    expect(error.path[error.path.length - 1]).toEqual({ key: 'httpClient', name: 'httpClient', parameter: 'http' });
+  });
+
+  it('should suggest registered keys for an unknown key at resolve time', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('database', () => 'db');
+    builder.singleton('logger', () => 'logger');
+    const container = builder.build();
+
+    const error = captureError(() => container.resolve('databse'));
+
+    expect(error).toBeInstanceOf(MissingDependencyError);
+    expect(error.message).toBe('No dependency of type databse. Did you mean database?');
+    expect(captureError(() => container.resolve('queue')).suggestions).toEqual([]);
+  });
+
+  it('should wrap factory errors with the resolution path and keep the cause', () => {
+    const failure = new Error('connection refused');
+    const builder = new ContainerBuilder();
+    builder.singleton(App, App, { orders: new Dep(OrderService) });
+    builder.transient(OrderService, OrderService, { payments: new Dep(PaymentClient) });
+    builder.singleton(PaymentClient, () => {
+      throw failure;
+    });
+    const container = builder.build();
+
+    const error = captureError(() => container.resolve(App));
+
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.message).toBe('Failed to resolve App -> OrderService -> PaymentClient: connection refused');
+    expect(error.reason).toBe('connection refused');
+    expect(error.cause).toBe(failure);
+    expect(error.path.map((step: any) => [step.name, step.lifetime, step.parameter])).toEqual([
+      ['App', 'singleton', undefined],
+      ['OrderService', 'transient', 'orders'],
+      ['PaymentClient', 'singleton', 'payments'],
+    ]);
+  });
+
+  it('should wrap async factory errors with the resolution path', async () => {
+    const failure = new Error('timeout');
+    const builder = new ContainerBuilder();
+    builder.singleton(OrderService, OrderService, { payments: new Dep(PaymentClient) });
+    builder.singleton(PaymentClient, async () => {
+      throw failure;
+    });
+    const container = builder.build();
+
+    const error = await container.resolveAsync(OrderService).catch(e => e);
+
+    expect(error).toBeInstanceOf(ResolutionError);
+    expect(error.message).toBe('Failed to resolve OrderService -> PaymentClient: timeout');
+    expect(error.cause).toBe(failure);
+    expect(error.path[1].parameter).toBe('payments');
+  });
+});
+
+describe('Container modules', () => {
+  class HttpClient {
+    constructor(public baseUrl: string) {}
+  }
+  class BillingService {
+    constructor(public http: HttpClient) {}
+  }
+  class OrderService {
+    constructor(public billing: BillingService) {}
+  }
+
+  const billingModule = new ContainerModule(
+    'billing',
+    builder => {
+      builder.singleton('baseUrl', () => 'https://billing');
+      builder.singleton(HttpClient, HttpClient, { baseUrl: new Dep('baseUrl') });
+      builder.singleton(BillingService, BillingService, { http: new Dep(HttpClient) });
+    },
+    { exports: [BillingService] }
+  );
+
+  it('should install module registrations', () => {
+    const builder = new ContainerBuilder();
+    builder.install(billingModule);
+    builder.singleton(OrderService, OrderService, { billing: new Dep(BillingService) });
+    const container = builder.build();
+
+    const orders = container.resolve(OrderService);
+
+    expect(orders.billing.http.baseUrl).toBe('https://billing');
+    expect(container.getRegisteredDeps()).toEqual(new Set([BillingService, OrderService, Container]));
+  });
+
+  it('should keep keys that are not exported private to the module', () => {
+    const builder = new ContainerBuilder();
+    builder.install(billingModule);
+    builder.singleton('baseUrl', () => 'https://orders');
+    builder.singleton(OrderService, OrderService, { billing: new Dep(BillingService) });
+    const container = builder.build();
+
+    expect(container.resolve('baseUrl')).toBe('https://orders');
+    expect(container.resolve(OrderService).billing.http.baseUrl).toBe('https://billing');
+    expect(() => container.resolve(HttpClient)).toThrow(MissingDependencyError);
+  });
+
+  it('should reject dependencies on keys private to another module', () => {
+    const builder = new ContainerBuilder();
+    builder.install(billingModule);
+    builder.singleton(OrderService, OrderService, { billing: new Dep(HttpClient) });
+
+    expect(() => builder.build()).toThrow('No dependency of type HttpClient needed by OrderService');
+  });
+
+  it('should install imported modules once', () => {
+    const configure = jest.fn((builder: ContainerBuilder) => builder.singleton('config', () => ({ debug: true })));
+    const configModule = new ContainerModule('config', configure);
+    const ordersModule = new ContainerModule(
+      'orders',
+      builder => builder.singleton(OrderService, OrderService, { billing: new Dep(BillingService) }),
+      { imports: [configModule, billingModule], exports: [OrderService, BillingService] }
+    );
+    const builder = new ContainerBuilder();
+    builder.install(configModule);
+    builder.install(ordersModule);
+    builder.install(ordersModule);
+    const container = builder.build();
+
+    expect(configure).toHaveBeenCalledTimes(1);
+    expect(container.resolve(OrderService).billing).toBe(container.resolve(BillingService));
+    expect(container.resolve('config')).toEqual({ debug: true });
+  });
+
+  it('should name the modules of conflicting registrations', () => {
+    const builder = new ContainerBuilder();
+    builder.install(billingModule);
+    const paymentsModule = new ContainerModule('payments', moduleBuilder =>
+      moduleBuilder.singleton(BillingService, () => new BillingService(new HttpClient('')))
+    );
+
+    expect(() => builder.install(paymentsModule)).toThrow(
+      'Type BillingService (module payments) is already registered by module billing'
+    );
+    expect(() => builder.singleton(BillingService, BillingService)).toThrow(
+      'Type BillingService is already registered by module billing'
+    );
+  });
+
+  it('should name the module in validation errors', () => {
+    const brokenModule = new ContainerModule(
+      'broken',
+      builder => builder.singleton(BillingService, BillingService, { http: new Dep(HttpClient) }),
+      { exports: [BillingService] }
+    );
+    const builder = new ContainerBuilder();
+    builder.install(brokenModule);
+    builder.singleton(OrderService, OrderService, { billing: new Dep(BillingService) });
+
+    expect(() => builder.build()).toThrow('No dependency of type HttpClient needed by BillingService (module broken)');
+  });
+
+  it('should reject exports the module does not provide', () => {
+    const module = new ContainerModule('empty', () => undefined, { exports: [HttpClient] });
+
+    expect(() => new ContainerBuilder().install(module)).toThrow(
+      'Module empty exports HttpClient which it neither registers nor imports'
+    );
+  });
+});
+
+describe('Child containers', () => {
+  class Config {
+    constructor(public tenant: string) {}
+  }
+  class Database {
+    constructor(public config: Config) {}
+  }
+  class Handler {
+    constructor(public config: Config) {}
+  }
+
+  function createParent(): Container {
+    const builder = new ContainerBuilder();
+    builder.singleton(Config, () => new Config('default'));
+    builder.singleton(Database, Database, { config: new Dep(Config) });
+    builder.transient(Handler, Handler, { config: new Dep(Config) });
+    return builder.build();
+  }
+
+  it('should add and shadow registrations locally and fall back to the parent', () => {
+    const parent = createParent();
+    const child = parent.createChild(builder => {
+      builder.singleton(Config, () => new Config('acme'));
+      builder.singleton('tenantName', ({ config }) => config.tenant, { config: new Dep(Config) });
+    });
+
+    expect(child.resolve(Config).tenant).toBe('acme');
+    expect(child.resolve('tenantName')).toBe('acme');
+    expect(child.resolve(Handler).config.tenant).toBe('acme');
+    expect(parent.resolve(Config).tenant).toBe('default');
+    expect(() => parent.resolve('tenantName')).toThrow(MissingDependencyError);
+  });
+
+  it('should share parent singletons and keep child singletons in the child', () => {
+    const parent = createParent();
+    const createChild = () => parent.createChild(builder => builder.singleton('session', () => ({})));
+    const first = createChild();
+    const second = createChild();
+
+    expect(first.resolve(Database)).toBe(parent.resolve(Database));
+    expect(second.resolve(Database)).toBe(parent.resolve(Database));
+    expect(first.resolve('session')).toBe(first.resolve('session'));
+    expect(first.resolve('session')).not.toBe(second.resolve('session'));
+    expect(first.resolve(Container)).toBe(first);
+  });
+
+  it('should never inject child registrations into parent singletons', async () => {
+    const parent = createParent();
+    const child = parent.createChild(builder => builder.singleton(Config, () => new Config('acme')));
+
+    expect(child.resolve(Database).config.tenant).toBe('default');
+    expect((await child.createChild(() => undefined).resolveAsync(Database)).config.tenant).toBe('default');
+  });
+
+  it('should validate the child against the combined registry at creation', () => {
+    const parent = createParent();
+
+    expect(() => parent.createChild(builder => builder.singleton('report', Handler, { config: new Dep('settings') }))).toThrow(
+      'No dependency of type settings needed by report'
+    );
+    expect(() =>
+      parent.createChild(builder => builder.singleton('report', ({ db }) => db, { db: new Dep(Database) }))
+    ).not.toThrow();
+  });
+
+  it('should require resolveAsync for child registrations depending on async parent singletons', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('connection', async () => 'connected');
+    const parent = builder.build();
+    const child = parent.createChild(childBuilder =>
+      childBuilder.transient('status', ({ connection }) => `${connection}!`, { connection: new Dep('connection') })
+    );
+
+    expect(() => child.resolve('status')).toThrow(/resolveAsync/);
+    expect(await child.resolveAsync('status')).toBe('connected!');
+    expect(await parent.resolveAsync('connection')).toBe('connected');
+  });
+
+  it('should append child multi-bindings to the parent ones', () => {
+    const builder = new ContainerBuilder();
+    builder.multi('plugin', () => 'core');
+    const parent = builder.build();
+    const child = parent.createChild(childBuilder => childBuilder.multi('plugin', () => 'tenant'));
+
+    expect(child.resolveAll('plugin')).toEqual(['core', 'tenant']);
+    expect(parent.resolveAll('plugin')).toEqual(['core']);
+  });
+
+  it('should dispose only what the child created', async () => {
+    const disposed: string[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton('shared', () => 'shared', {}, { dispose: () => void disposed.push('shared') });
+    const parent = builder.build();
+    const child = parent.createChild(childBuilder =>
+      childBuilder.singleton('local', () => 'local', {}, { dispose: () => void disposed.push('local') })
+    );
+    child.resolve('shared');
+    child.resolve('local');
+
+    await child.dispose();
+
+    expect(disposed).toEqual(['local']);
+    expect(parent.resolve('shared')).toBe('shared');
+  });
+
+  it('should not create inherited singletons in a disposed parent', async () => {
+    let created = 0;
+    const builder = new ContainerBuilder();
+    builder.singleton('shared', () => ({ id: ++created }));
+    const parent = builder.build();
+    const child = parent.createChild(() => undefined);
+    await parent.dispose();
+
+    expect(() => child.resolve('shared')).toThrow('Container is disposed');
+    await expect(child.resolveAsync('shared')).rejects.toThrow('Container is disposed');
+    expect(created).toBe(0);
+  });
+
+  it('should create eager singletons of the child but not those it inherits', () => {
+    const created: string[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton(Config, () => (created.push('config'), new Config('default')), {}, { eager: true });
+    const parent = builder.build();
+    const child = parent.createChild(childBuilder =>
+      childBuilder.singleton(Database, ({ config }) => (created.push('database'), new Database(config)), { config: new Dep(Config) }, { eager: true })
+    );
+
+    expect(created).toEqual(['config', 'database']);
+    expect(child.resolve(Database).config).toBe(parent.resolve(Config));
+  });
+
+  it('should reject async eager singletons in a child', () => {
+    const parent = createParent();
+
+    expect(() =>
+      parent.createChild(builder => builder.singleton('session', async () => ({}), {}, { eager: true }))
+    ).toThrow('Eager singletons session depend on async factories, createChild cannot await them, register them without eager');
+  });
+});
+
+describe('Named registrations', () => {
+  class HttpClient {
+    constructor(public baseUrl: string) {}
+  }
+
+  function createBuilder(): ContainerBuilder {
+    const builder = new ContainerBuilder();
+    builder.singleton(HttpClient, () => new HttpClient('https://billing'), {}, { name: 'billing' });
+    builder.register(HttpClient, () => new HttpClient('https://search'), { lifetime: 'singleton', name: 'search' });
+    return builder;
+  }
+
+  it('should resolve registrations by name', () => {
+    const container = createBuilder().build();
+
+    expect(container.resolve(HttpClient, 'billing').baseUrl).toBe('https://billing');
+    expect(container.resolve(HttpClient, 'search').baseUrl).toBe('https://search');
+    expect(container.resolve(HttpClient, 'billing')).toBe(container.resolve(HttpClient, 'billing'));
+  });
+
+  it('should report names that were never registered without keeping them', () => {
+    const builder = createBuilder();
+    const container = builder.build();
+
+    expect(container.has(HttpClient, 'tenant-42')).toBe(false);
+    expect(container.tryResolve(HttpClient, 'tenant-42')).toBeUndefined();
+    expect(() => container.resolve(HttpClient, 'tenant-42')).toThrow(MissingDependencyError);
+    expect(() => container.resolve(HttpClient, 'tenant-42')).toThrow('HttpClient (tenant-42)');
+
+    builder.singleton(HttpClient, () => new HttpClient('https://tenant-42'), {}, { name: 'tenant-42' });
+    expect(builder.build().resolve(HttpClient, 'tenant-42').baseUrl).toBe('https://tenant-42');
+  });
+
+  it('should inject named registrations with Dependency', async () => {
+    const builder = createBuilder();
+    builder.transient('billingUrl', ({ http }) => http.baseUrl, { http: new Dep(HttpClient, 'billing') });
+    builder.transient('searchUrl', ({ http }) => http.value.baseUrl, { http: new LazyDependency(HttpClient, 'search') });
+    const container = builder.build();
+
+    expect(container.resolve('billingUrl')).toBe('https://billing');
+    expect(container.resolve('searchUrl')).toBe('https://search');
+    expect(await container.resolveAsync('billingUrl')).toBe('https://billing');
+  });
+
+  it('should inject named registrations with @Named', () => {
+    @Injectable()
+    class SearchService {
+      constructor(@Named('search') public http: HttpClient) {}
+    }
+
+    const builder = createBuilder();
+    builder.singleton(SearchService, SearchService);
+    const container = builder.build();
+
+    expect(container.resolve(SearchService).http).toBe(container.resolve(HttpClient, 'search'));
+  });
+
+  it('should prefer the unnamed registration for unqualified requests', () => {
+    const builder = createBuilder();
+    builder.singleton(HttpClient, () => new HttpClient('https://internal'));
+    const container = builder.build();
+
+    expect(container.resolve(HttpClient).baseUrl).toBe('https://internal');
+    expect(container.resolve(HttpClient, 'billing').baseUrl).toBe('https://billing');
+  });
+
+  it('should use a single named registration for unqualified requests', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(HttpClient, () => new HttpClient('https://billing'), {}, { name: 'billing' });
+    builder.transient('url', ({ http }) => http.baseUrl, { http: new Dep(HttpClient) });
+    const container = builder.build();
+
+    expect(container.resolve(HttpClient)).toBe(container.resolve(HttpClient, 'billing'));
+    expect(container.resolve('url')).toBe('https://billing');
+  });
+
+  it('should report ambiguous unqualified requests', () => {
+    const builder = createBuilder();
+    builder.singleton('report', ({ http }) => http, { http: new Dep(HttpClient) });
+
+    expect(() => builder.build()).toThrow(AmbiguousDependencyError);
+    expect(() => builder.build()).toThrow(
+      'Ambiguous dependency of type HttpClient needed by report, registered with names billing, search and no default'
+    );
+    expect(() => createBuilder().build().resolve(HttpClient)).toThrow(AmbiguousDependencyError);
+  });
+
+  it('should report unknown names and duplicate named registrations', () => {
+    const builder = createBuilder();
+
+    expect(() => builder.build().resolve(HttpClient, 'internal')).toThrow('No dependency of type HttpClient (internal)');
+    expect(() => builder.singleton(HttpClient, () => new HttpClient(''), {}, { name: 'billing' })).toThrow(
+      'Type HttpClient (billing) is already registered'
+    );
+  });
+
+  it('should export named registrations of exported keys from modules', () => {
+    const module = new ContainerModule(
+      'http',
+      builder => builder.singleton(HttpClient, () => new HttpClient('https://billing'), {}, { name: 'billing' }),
+      { exports: [HttpClient] }
+    );
+    const builder = new ContainerBuilder();
+    builder.install(module);
+
+    expect(builder.build().resolve(HttpClient, 'billing').baseUrl).toBe('https://billing');
+  });
+});
+
+describe('Captive dependencies', () => {
+  class Clock {}
+  class Session {}
+  class PaymentClient {
+    constructor(public clock: Clock) {}
+  }
+  class OrderService {
+    constructor(public payments: PaymentClient) {}
+  }
+
+  function register(builder: ContainerBuilder, clock: unknown = new Dep(Clock)): ContainerBuilder {
+    builder.singleton(OrderService, OrderService, { payments: new Dep(PaymentClient) });
+    builder.singleton(PaymentClient, PaymentClient, { clock });
+    builder.transient(Clock, Clock);
+    return builder;
+  }
+
+  it('should ignore captive dependencies by default', () => {
+    expect(() => register(new ContainerBuilder()).build()).not.toThrow();
+  });
+
+  it('should report a singleton depending on a shorter-lived registration with its path', () => {
+    const builder = register(new ContainerBuilder({ captiveDependencies: 'error' }));
+
+    expect(() => builder.build()).toThrow(CaptiveDependencyError);
+    expect(() => builder.build()).toThrow(
+      'Singleton PaymentClient captures transient Clock: OrderService -> PaymentClient -> Clock'
+    );
+  });
+
+  it('should pass captive dependencies to a warning callback', () => {
+    const warnings: CaptiveDependencyError[] = [];
+    const builder = register(new ContainerBuilder({ captiveDependencies: error => warnings.push(error) }));
+    builder.scoped(Session, Session);
+    builder.singleton('audit', ({ session }) => session, { session: new Dep(Session) });
+
+    builder.build();
+
+    expect(warnings.map(warning => warning.message)).toEqual([
+      'Singleton PaymentClient captures transient Clock: OrderService -> PaymentClient -> Clock',
+      'Singleton audit captures scoped Session: audit -> Session',
+    ]);
+    expect(warnings[0].path.map(step => [step.name, step.lifetime, step.parameter])).toEqual([
+      ['OrderService', 'singleton', undefined],
+      ['PaymentClient', 'singleton', 'payments'],
+      ['Clock', 'transient', 'clock'],
+    ]);
+  });
+
+  it('should check lazy and multi edges but not provider edges', () => {
+    const check = (dependency: unknown) => {
+      const builder = new ContainerBuilder({ captiveDependencies: 'error' });
+      builder.transient(Clock, Clock);
+      builder.multi('plugin', () => 'plugin', {}, { lifetime: 'transient' });
+      builder.singleton('service', ({ dep }) => dep, { dep: dependency });
+      return () => builder.build();
+    };
+
+    expect(check(new LazyDependency(Clock))).toThrow(CaptiveDependencyError);
+    expect(check(new MultiDependency('plugin'))).toThrow(CaptiveDependencyError);
+    expect(check(new ProviderDependency(Clock))).not.toThrow();
+  });
+
+  it('should allow deliberate captive dependencies per edge', () => {
+    @Injectable()
+    class Scheduler {
+      constructor(@AllowCaptive() public clock: Clock) {}
+    }
+
+    const builder = register(
+      new ContainerBuilder({ captiveDependencies: 'error' }),
+      new Dep(Clock, { allowCaptive: true })
+    );
+    builder.singleton(Scheduler, Scheduler);
+    builder.singleton('plugins', ({ plugins }) => plugins, { plugins: new MultiDependency('plugin', { allowCaptive: true }) });
+    builder.multi('plugin', () => 'plugin', {}, { lifetime: 'transient' });
+
+    expect(() => builder.build()).not.toThrow();
+  });
+
+  it('should check children and test overrides with the handler of the builder', () => {
+    const container = register(new ContainerBuilder({ captiveDependencies: 'error' }), new Dep(Clock, { allowCaptive: true })).build();
+
+    const report = (child: ContainerBuilder) => child.singleton('report', ({ clock }) => clock, { clock: new Dep(Clock) });
+    expect(() => container.createChild(report)).toThrow(CaptiveDependencyError);
+
+    const payments = ({ clock }: { clock: Clock }) => new PaymentClient(clock);
+    expect(() => container.createTestContainer().withOverridden(PaymentClient, payments, true, { clock: new Dep(Clock) })).toThrow(
+      CaptiveDependencyError
+    );
+    expect(() => container.createTestContainer().withOverridden(PaymentClient, () => new PaymentClient(new Clock()), true)).not.toThrow();
+  });
+});
+
+describe('Resolution plans', () => {
+  class Node {
+    constructor(
+      public child: unknown,
+      public depth: number
+    ) {}
+  }
+  class Leaf {}
+
+  // Count how often the source of a factory is parsed
+  function withSourceSpy<T extends (...args: any[]) => any>(factory: T): T & { toString: jest.Mock } {
+    const source = Function.prototype.toString.call(factory);
+    return Object.assign(factory, { toString: jest.fn(() => source) });
+  }
+
+  it('should compile each registration once and only execute plans on resolve', () => {
+    const factory = withSourceSpy(({ db, url }: { db: string; url: string }) => `${db}@${url}`);
+    const builder = new ContainerBuilder();
+    builder.singleton('db', () => 'primary');
+    builder.transient('repository', factory, { url: 'localhost' });
+    const container = builder.build();
+    const parsed = factory.toString.mock.calls.length;
+
+    for (let i = 0; i < 100; i++) {
+      expect(container.resolve('repository')).toBe('primary@localhost');
+    }
+    container.createTestContainer().withOverridden('db', () => 'replica', true).resolve('repository');
+
+    expect(factory.toString).toHaveBeenCalledTimes(parsed);
+  });
+
+  it('should recompile only the overridden registration', () => {
+    const factory = withSourceSpy(({ db }: { db: string }) => `repository(${db})`);
+    const override = withSourceSpy(() => 'replica');
+    const builder = new ContainerBuilder();
+    builder.singleton('db', () => 'primary');
+    builder.transient('repository', factory);
+    const container = builder.build().createTestContainer();
+    const parsed = factory.toString.mock.calls.length;
+
+    const overridden = container.withOverridden('db', override, true);
+    const overrideParsed = override.toString.mock.calls.length;
+
+    expect(overridden.resolve('repository')).toBe('repository(replica)');
+    expect(overridden.resolve('repository')).toBe('repository(replica)');
+    expect(factory.toString).toHaveBeenCalledTimes(parsed);
+    expect(override.toString).toHaveBeenCalledTimes(overrideParsed);
+    expect(overrideParsed).toBeGreaterThan(0);
+  });
+
+  it('should not parse any factory of a deep transient graph when resolving it', () => {
+    const depth = 30;
+    const factories = Array.from({ length: depth }, () =>
+      withSourceSpy(({ child, depth }: { child: unknown; depth: number }) => new Node(child, depth))
+    );
+    const builder = new ContainerBuilder();
+    factories.forEach((factory, i) => builder.transient(`node${i}`, factory, { child: new Dep(`node${i + 1}`), depth: i }));
+    builder.transient(`node${depth}`, Leaf);
+    const container = builder.build();
+    const parsed = factories.map(factory => factory.toString.mock.calls.length);
+
+    for (let i = 0; i < 200; i++) {
+      container.resolve('node0');
+    }
+
+    let node = container.resolve<Node>('node0');
+    for (let i = 0; i < depth; i++) {
+      expect(node.depth).toBe(i);
+      node = node.child as Node;
+    }
+    expect(node).toBeInstanceOf(Leaf);
+    expect(factories.map(factory => factory.toString.mock.calls.length)).toEqual(parsed);
+  });
+
+  it('should not parse constructors when resolving classes', () => {
+    class Repository {
+      constructor(
+        public db: string,
+        public table: string
+      ) {}
+    }
+    const toString = withSourceSpy(Repository as unknown as (...args: any[]) => any).toString;
+    const builder = new ContainerBuilder();
+    builder.singleton('db', () => 'primary');
+    builder.transient(Repository, Repository, { db: new Dep('db'), table: 'users' });
+    const container = builder.build();
+    const parsed = toString.mock.calls.length;
+
+    for (let i = 0; i < 100; i++) {
+      expect(container.resolve(Repository)).toEqual({ db: 'primary', table: 'users' });
+    }
+
+    expect(toString).toHaveBeenCalledTimes(parsed);
+  });
+});
+
+describe('Decorators and interceptors', () => {
+  class Logger {
+    lines: string[] = [];
+    log(line: string) {
+      this.lines.push(line);
+    }
+  }
+  class PaymentClient {
+    charge(amount: number) {
+      return `charged ${amount}`;
+    }
+  }
+
+  // Wrap every method of an instance, logging its calls
+  function withLogging<T extends object>(instance: T, logger: Logger, label: string): T {
+    return new Proxy(instance, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function') {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          logger.log(`${label}.${String(property)}(${args.join(', ')})`);
+          return value.apply(target, args);
+        };
+      },
+    });
+  }
+
+  function createBuilder(): ContainerBuilder {
+    const builder = new ContainerBuilder();
+    builder.singleton(Logger, Logger);
+    builder.singleton(PaymentClient, PaymentClient);
+    builder.decorate(PaymentClient, (client, { deps }) => withLogging(client, deps.logger, 'payments'), {
+      logger: new Dep(Logger),
+    });
+    return builder;
+  }
+
+  it('should wrap instances with decorators resolving their own dependencies', () => {
+    const container = createBuilder().build();
+
+    const client = container.resolve(PaymentClient);
+
+    expect(client.charge(10)).toBe('charged 10');
+    expect(container.resolve(Logger).lines).toEqual(['payments.charge(10)']);
+    expect(container.resolve(PaymentClient)).toBe(client);
+  });
+
+  it('should pass the decorated registration to decorators', () => {
+    const contexts: unknown[] = [];
+    const builder = new ContainerBuilder();
+    builder.transient(PaymentClient, PaymentClient, {}, { name: 'billing' });
+    builder.decorate(
+      PaymentClient,
+      (client, context) => {
+        contexts.push(context);
+        return client;
+      },
+      { retries: 3 }
+    );
+
+    builder.build().resolve(PaymentClient, 'billing');
+
+    expect(contexts).toEqual([{ key: PaymentClient, name: 'billing', lifetime: 'transient', deps: { retries: 3 } }]);
+  });
+
+  it('should apply key decorators, then matching interceptors, before caching', () => {
+    const calls: string[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton('service', () => 'service');
+    builder.transient('handler', () => 'handler');
+    builder.decorate('service', (value: string) => `decorated(${value})`);
+    builder.intercept(
+      () => true,
+      (value: string, { key }) => {
+        calls.push(String(key));
+        return `intercepted(${value})`;
+      }
+    );
+    builder.intercept(({ lifetime }) => lifetime === 'transient', (value: string) => `transient(${value})`);
+    const container = builder.build();
+
+    expect(container.resolve('service')).toBe('intercepted(decorated(service))');
+    expect(container.resolve('service')).toBe('intercepted(decorated(service))');
+    expect(container.resolve('handler')).toBe('transient(intercepted(handler))');
+    expect(calls).toEqual(['service', 'handler']);
+  });
+
+  it('should validate decorator dependencies at build', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(PaymentClient, PaymentClient);
+    builder.decorate(PaymentClient, client => client, { metrics: new Dep('metrics') });
+
+    expect(() => builder.build()).toThrow('No dependency of type metrics needed by PaymentClient');
+  });
+
+  it('should reject decorators of keys without a registration', () => {
+    const builder = new ContainerBuilder();
+    builder.decorate('missing', value => value);
+
+    expect(() => builder.build()).toThrow('Cannot decorate missing without any registration');
+  });
+
+  it('should resolve decorator dependencies with resolveAsync', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('prefix', async () => 'async');
+    builder.singleton('service', () => 'service');
+    builder.decorate('service', (value: string, { deps }) => `${deps.prefix}(${value})`, { prefix: new Dep('prefix') });
+    const container = builder.build();
+
+    expect(() => container.resolve('service')).toThrow(/resolveAsync/);
+    expect(await container.resolveAsync('service')).toBe('async(service)');
+  });
+
+  it('should dispose the undecorated instance', async () => {
+    const disposed: unknown[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton('connection', () => ({ id: 1 }), {}, { dispose: instance => void disposed.push(instance) });
+    builder.decorate('connection', connection => ({ wrapped: connection }));
+    const container = builder.build();
+
+    const connection = container.resolve<{ wrapped: unknown }>('connection');
+    await container.dispose();
+
+    expect(disposed).toEqual([connection.wrapped]);
+  });
+
+  it('should apply module decorators to the module registrations only', () => {
+    const module = new ContainerModule('payments', moduleBuilder => {
+      moduleBuilder.singleton(PaymentClient, PaymentClient);
+      moduleBuilder.intercept(
+        () => true,
+        client => Object.assign(Object.create(client), { intercepted: true })
+      );
+    });
+    const builder = new ContainerBuilder();
+    builder.install(module);
+    builder.singleton(Logger, Logger);
+    const container = builder.build();
+
+    expect(container.resolve<any>(PaymentClient).intercepted).toBe(true);
+    expect(container.resolve<any>(Logger).intercepted).toBeUndefined();
+  });
+
+  it('should strip or replace decorators in test containers', () => {
+    const container = createBuilder().build().createTestContainer();
+
+    const stripped = container.withoutDecorators(PaymentClient);
+    stripped.resolve(PaymentClient).charge(1);
+    expect(stripped.resolve(Logger).lines).toEqual([]);
+
+    const replaced = container.withOverriddenDecorators(
+      PaymentClient,
+      (client, { deps }) => withLogging(client, deps.logger, 'test'),
+      { logger: new Dep(Logger) }
+    );
+    replaced.resolve(PaymentClient).charge(2);
+    expect(replaced.resolve(Logger).lines).toEqual(['test.charge(2)']);
+
+    const strippedAll = container.withoutDecorators();
+    strippedAll.resolve(PaymentClient).charge(3);
+    expect(strippedAll.resolve(Logger).lines).toEqual([]);
+
+    expect(() => container.withoutDecorators('missing')).toThrow('Cannot decorate missing without any registration');
+  });
+
+  it('should keep decorators on overridden keys', () => {
+    const container = createBuilder().build().createTestContainer();
+    const overridden = container.withOverriddenSingleton(PaymentClient, () => ({ charge: () => 'mocked' }));
+
+    expect(overridden.resolve(PaymentClient).charge(5)).toBe('mocked');
+    expect(overridden.resolve(Logger).lines).toEqual(['payments.charge(5)']);
+  });
+});
+
+describe('Resolution tracing', () => {
+  class Config {}
+  class Database {
+    constructor(public config: Config) {}
+  }
+  class Logger {}
+  class App {
+    constructor(
+      public database: Database,
+      public logger: Logger
+    ) {}
+  }
+
+  function createBuilder(config: () => Config | Promise<Config> = () => new Config(), logger?: () => Logger) {
+    const builder = new ContainerBuilder();
+    builder.singleton(Config, config);
+    builder.singleton(Database, Database, { config: new Dep(Config) });
+    if (logger) {
+      builder.singleton(Logger, logger);
+    } else {
+      builder.transient(Logger, Logger);
+    }
+    builder.singleton(App, App, { database: new Dep(Database), logger: new Dep(Logger) });
+    return builder;
+  }
+
+  function record(container: Container): { events: (ResolutionEvent & { type: string })[]; stop: () => void } {
+    const events: (ResolutionEvent & { type: string })[] = [];
+    const stops = (['resolve:start', 'resolve:end', 'resolve:error'] as const).map(type =>
+      container.on(type, event => events.push({ type, ...event }))
+    );
+    return { events, stop: () => stops.forEach(stop => stop()) };
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit start and end events correlated to the requesting resolution', () => {
+    const container = createBuilder().build();
+    const { events } = record(container);
+
+    container.resolve(App);
+
+    expect(events.map(({ type, name, depth, lifetime }) => [type, name, depth, lifetime])).toEqual([
+      ['resolve:start', 'App', 0, 'singleton'],
+      ['resolve:start', 'Database', 1, 'singleton'],
+      ['resolve:start', 'Config', 2, 'singleton'],
+      ['resolve:end', 'Config', 2, 'singleton'],
+      ['resolve:end', 'Database', 1, 'singleton'],
+      ['resolve:start', 'Logger', 1, 'transient'],
+      ['resolve:end', 'Logger', 1, 'transient'],
+      ['resolve:end', 'App', 0, 'singleton'],
+    ]);
+    const [app, database, config] = events;
+    expect(app.parentId).toBeUndefined();
+    expect(database.parentId).toBe(app.id);
+    expect(config.parentId).toBe(database.id);
+    expect(events[3].id).toBe(config.id);
+  });
+
+  it('should report cache hits and durations', () => {
+    jest.useFakeTimers();
+    const container = createBuilder(() => {
+      jest.advanceTimersByTime(30);
+      return new Config();
+    }).build();
+    const ends: ResolveEndEvent[] = [];
+    container.on('resolve:end', event => ends.push(event));
+
+    container.resolve(Database);
+    container.resolve(Config);
+
+    expect(ends.map(({ name, duration, cached }) => [name, duration, cached])).toEqual([
+      ['Config', 30, false],
+      ['Database', 30, false],
+      ['Config', 0, true],
+    ]);
+  });
+
+  it('should emit error events along the failing path', () => {
+    const container = createBuilder(() => {
+      throw new Error('Config file not found');
+    }).build();
+    const errors: ResolveErrorEvent[] = [];
+    container.on('resolve:error', event => errors.push(event));
+
+    expect(() => container.resolve(App)).toThrow(ResolutionError);
+
+    expect(errors.map(event => event.name)).toEqual(['Config', 'Database', 'App']);
+    expect((errors[0].error as Error).message).toContain('Config file not found');
+    expect(errors[2].error).toBeInstanceOf(ResolutionError);
+  });
+
+  it('should emit start and error events for a missing key resolved directly', async () => {
+    const container = createBuilder().build();
+    const { events } = record(container);
+
+    expect(() => container.resolve('cache')).toThrow(MissingDependencyError);
+    await expect(container.resolveAsync('cache')).rejects.toThrow(MissingDependencyError);
+    expect(container.tryResolve('cache')).toBeUndefined();
+
+    expect(events.map(({ type, name, depth, lifetime }) => [type, name, depth, lifetime])).toEqual([
+      ['resolve:start', 'cache', 0, undefined],
+      ['resolve:error', 'cache', 0, undefined],
+      ['resolve:start', 'cache', 0, undefined],
+      ['resolve:error', 'cache', 0, undefined],
+    ]);
+    expect((events[1] as any).error).toBeInstanceOf(MissingDependencyError);
+  });
+
+  it('should trace async resolutions and scopes', async () => {
+    const builder = createBuilder(async () => new Config());
+    builder.scoped('request', ({ app }: { app: App }) => ({ app }), { app: new Dep(App) });
+    const container = builder.build();
+    const { events } = record(container);
+
+    const scope = container.createScope();
+    await scope.resolveAsync('request');
+    await scope.resolveAsync(App);
+
+    const starts = events.filter(event => event.type === 'resolve:start');
+    expect(starts.map(({ name, depth }) => [name, depth])).toEqual([
+      ['request', 0],
+      ['App', 1],
+      ['Database', 2],
+      ['Config', 3],
+      ['Logger', 2],
+      ['App', 0],
+    ]);
+    const appEnds = events.filter(event => event.type === 'resolve:end' && event.name === 'App');
+    expect(appEnds.map(event => (event as any).cached)).toEqual([false, true]);
+  });
+
+  it('should not trace resolutions once every listener is removed', () => {
+    const container = createBuilder().build();
+    const { events, stop } = record(container);
+    container.resolve(Logger);
+    stop();
+
+    container.resolve(App);
+    expect(events).toHaveLength(2);
+
+    // No event was built in between, the ids continue where the first listener stopped
+    const next = record(container);
+    container.resolve(Logger);
+    expect(next.events.map(({ id }) => id)).toEqual([events[0].id + 1, events[0].id + 1]);
+  });
+
+  it('should render a startup report of created instances', () => {
+    jest.useFakeTimers();
+    const delay = <T>(ms: number, create: () => T) => () => {
+      jest.advanceTimersByTime(ms);
+      return create();
+    };
+    const builder = createBuilder(
+      delay(10, () => new Config()),
+      delay(5, () => new Logger())
+    );
+    builder.singleton('failing', () => {
+      throw new Error('boom');
+    });
+    const container = builder.build();
+    const report = new StartupReport(container);
+
+    container.resolve(Logger);
+    container.resolve(App);
+    expect(() => container.resolve('failing')).toThrow();
+    report.stop();
+    container.resolve(Config);
+
+    expect(report.format()).toBe(
+      [
+        'Logger (singleton) 5.0ms ██████████',
+        'App (singleton) 10.0ms ████████████████████',
+        '└─ Database (singleton) 10.0ms ████████████████████',
+        '   └─ Config (singleton) 10.0ms ████████████████████',
+        'failing (singleton) failed after 0.0ms',
+      ].join('\n')
+    );
+  });
+
+  it('should trace inherited singletons with the ids of the parent', () => {
+    jest.useFakeTimers();
+    const parent = createBuilder().build();
+    parent.resolve(Config);
+    const report = new StartupReport(parent);
+    const child = parent.createChild(builder => builder.transient('handler', ({ database }) => database, { database: new Dep(Database) }));
+    const { events } = record(child);
+
+    expect(child.resolve('handler')).toBe(parent.resolve(Database));
+
+    expect(events.map(({ type, name, depth }) => [type, name, depth])).toEqual([
+      ['resolve:start', 'handler', 0],
+      ['resolve:start', 'Database', 1],
+      ['resolve:end', 'Database', 1],
+      ['resolve:end', 'handler', 0],
+    ]);
+    expect(events[1].parentId).toBe(events[0].id);
+    expect(report.format()).toBe('Database (singleton) 0.0ms');
+  });
+});
+
+describe('Configuration', () => {
+  class Database {
+    constructor(
+      @Config('db.host') public host: string,
+      @Config('db.port', { default: 5432 }) public port: number,
+      @Config('db.ssl', { optional: true }) public ssl?: boolean
+    ) {}
+  }
+
+  it('should inject config values by path with kwargs', () => {
+    const builder = new ContainerBuilder();
+    builder.config({ db: { host: 'localhost', port: '6432' }, features: { search: true } });
+    builder.singleton('url', ({ host, port }: { host: string; port: number }) => `${host}:${port}`, {
+      host: new ConfigValue('db.host'),
+      port: new ConfigValue('db.port', { type: 'number', default: 5432 }),
+    });
+    builder.singleton('search', ({ enabled }: { enabled: boolean }) => enabled, {
+      enabled: new ConfigValue('features.search', { type: 'boolean' }),
+    });
+    const container = builder.build();
+
+    expect(container.resolve('url')).toBe('localhost:6432');
+    expect(container.resolve('search')).toBe(true);
+    expect(container.getRegisteredDeps()).toEqual(new Set(['url', 'search', Container]));
+  });
+
+  it('should coerce parameters decorated with @Config to their reflected type', () => {
+    const builder = new ContainerBuilder();
+    builder.config(new EnvConfigSource({ APP_DB_HOST: 'db.internal', APP_DB_SSL: 'yes' }, { prefix: 'APP_' }));
+    builder.singleton(Database, Database);
+    const database = builder.build().resolve(Database);
+
+    expect(database.host).toBe('db.internal');
+    expect(database.port).toBe(5432);
+    expect(database.ssl).toBe(true);
+  });
+
+  it('should read values from the last source defining them', () => {
+    const builder = new ContainerBuilder();
+    builder.config({ db: { host: 'defaults', port: 1 } }, { db: { port: 2 } });
+    builder.config(new EnvConfigSource({ DB_PORT: '3', DB_SSL: 'off' }));
+    builder.singleton(Database, Database);
+    const database = builder.build().resolve(Database);
+
+    expect([database.host, database.port, database.ssl]).toEqual(['defaults', 3, false]);
+  });
+
+  it('should report every missing or invalid value when building', () => {
+    const builder = new ContainerBuilder();
+    builder.config(new EnvConfigSource({ DB_PORT: 'abc', HTTP_PORT: '99999', HTTP_VERBOSE: 'maybe' }));
+    builder.singleton(Database, Database);
+    builder.singleton('server', ({ port, verbose }: { port: number; verbose: boolean }) => ({ port, verbose }), {
+      port: new ConfigValue('http.port', {
+        type: 'number',
+        validate: port => (port < 65536 ? undefined : 'must be below 65536'),
+      }),
+      verbose: new ConfigValue('http.verbose', { type: 'boolean' }),
+    });
+
+    let error: unknown;
+    try {
+      builder.build();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error).toBeInstanceOf(AggregateContainerError);
+    expect((error as ConfigError).problems).toEqual([
+      'Config value db.host needed by Database is missing',
+      'Config value db.port needed by Database is invalid in env: expected a number, got "abc"',
+      'Config value http.port needed by server is invalid in env: must be below 65536',
+      'Config value http.verbose needed by server is invalid in env: expected a boolean, got "maybe"',
+    ]);
+    expect((error as ConfigError).message).toContain('Invalid configuration:\n  - Config value db.host');
+  });
+
+  it('should not use primitive parameter types as keys', () => {
+    class Logger {}
+    @Injectable()
+    class Server {
+      constructor(
+        public logger: Logger,
+        public port: number
+      ) {}
+    }
+    const builder = new ContainerBuilder();
+    builder.singleton(Logger, Logger);
+    builder.singleton(Server, Server);
+
+    expect(() => builder.build()).toThrow('No dependency of type port needed by Server');
+  });
+
+  it('should layer the config sources of child containers and modules', () => {
+    const module = new ContainerModule('database', moduleBuilder => {
+      moduleBuilder.config({ db: { host: 'module', port: 1 } });
+      moduleBuilder.singleton(Database, Database);
+    });
+    const builder = new ContainerBuilder();
+    builder.install(module);
+    builder.config({ db: { port: 2 } });
+    const container = builder.build();
+
+    const tenant = container.createChild(childBuilder => {
+      childBuilder.config({ db: { host: 'tenant' } });
+      childBuilder.transient('tenantDb', Database);
+    });
+
+    expect(container.resolve(Database)).toMatchObject({ host: 'module', port: 2 });
+    expect(tenant.resolve(Database)).toBe(container.resolve(Database));
+    expect(tenant.resolve('tenantDb')).toMatchObject({ host: 'tenant', port: 2 });
+  });
+});
+
+describe('Values and aliases', () => {
+  interface Logger {
+    log(message: string): void;
+  }
+  const LOGGER = new InjectionToken<Logger>('Logger');
+  class ConsoleLogger implements Logger {
+    log() {}
+  }
+  class Service {
+    constructor(public logger: Logger) {}
+  }
+
+  it('should register existing instances without disposing them', async () => {
+    const connection = { dispose: jest.fn() };
+    const builder = new ContainerBuilder();
+    builder.value('apiUrl', 'https://api.example.com');
+    builder.value('connection', connection);
+    builder.value('connection', { dispose: jest.fn() }, { name: 'replica' });
+    const container = builder.build();
+
+    expect(container.resolve('apiUrl')).toBe('https://api.example.com');
+    expect(container.resolve('connection')).toBe(connection);
+    await container.dispose();
+    expect(connection.dispose).not.toHaveBeenCalled();
+  });
+
+  it('should share the instances of the target', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(ConsoleLogger, ConsoleLogger);
+    builder.alias(LOGGER, ConsoleLogger);
+    builder.alias('logger', LOGGER);
+    builder.transient(Service, Service, { logger: new Dep(LOGGER) });
+    const container = builder.build();
+
+    const logger = container.resolve(ConsoleLogger);
+    expect(container.resolve(LOGGER)).toBe(logger);
+    expect(container.resolve('logger')).toBe(logger);
+    expect(container.resolve(Service).logger).toBe(logger);
+    expect(container.getRegisteredDeps()).toEqual(new Set([ConsoleLogger, Service, Container, LOGGER, 'logger']));
+  });
+
+  it('should warn once when a deprecated alias is resolved', () => {
+    const warn = jest.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+    const builder = new ContainerBuilder();
+    builder.singleton(ConsoleLogger, ConsoleLogger);
+    builder.alias('legacyLogger', ConsoleLogger, { deprecated: 'use ConsoleLogger' });
+    const container = builder.build();
+
+    container.resolve(ConsoleLogger);
+    expect(warn).not.toHaveBeenCalled();
+    container.resolve('legacyLogger');
+    container.resolve('legacyLogger');
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('legacyLogger is deprecated: use ConsoleLogger', 'DeprecationWarning');
+    warn.mockRestore();
+  });
+
+  it('should validate alias targets and detect alias cycles', () => {
+    const missing = new ContainerBuilder();
+    missing.alias(LOGGER, ConsoleLogger);
+    expect(() => missing.build()).toThrow('No dependency of type ConsoleLogger needed by Logger');
+
+    const cyclic = new ContainerBuilder();
+    cyclic.alias('a', 'b');
+    cyclic.alias('b', 'c');
+    cyclic.alias('c', 'a');
+    expect(() => cyclic.build()).toThrow(CyclicDependencyError);
+    expect(() => cyclic.build()).toThrow('Cycle dependencies for type a: a -> b -> c -> a');
+
+    const conflicting = new ContainerBuilder();
+    conflicting.value(LOGGER, new ConsoleLogger());
+    expect(() => conflicting.alias(LOGGER, ConsoleLogger)).toThrow('Type Logger is already registered');
+  });
+
+  it('should override aliases and their targets in test containers', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(ConsoleLogger, ConsoleLogger);
+    builder.alias(LOGGER, ConsoleLogger);
+    const container = builder.build().createTestContainer();
+    const mock = { log: jest.fn() };
+
+    const targetOverridden = container.withOverridden(ConsoleLogger, () => mock, true);
+    expect(targetOverridden.resolve(LOGGER)).toBe(mock);
+
+    const aliasOverridden = container.withOverridden(LOGGER, () => mock, true);
+    expect(aliasOverridden.resolve(LOGGER)).toBe(mock);
+    expect(aliasOverridden.resolve(ConsoleLogger)).toBeInstanceOf(ConsoleLogger);
+  });
+
+  it('should follow targets shadowed by a child container', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(ConsoleLogger, ConsoleLogger);
+    builder.alias(LOGGER, ConsoleLogger);
+    const container = builder.build();
+    const tenantLogger = new ConsoleLogger();
+
+    const child = container.createChild(childBuilder => childBuilder.value(ConsoleLogger, tenantLogger));
+
+    expect(child.resolve(LOGGER)).toBe(tenantLogger);
+    expect(container.resolve(LOGGER)).not.toBe(tenantLogger);
+  });
+});
+
+describe('Assisted injection', () => {
+  class Database {}
+  class ReportGenerator {
+    constructor(
+      public db: Database,
+      public reportId: string
+    ) {}
+  }
+  class ReportController {
+    constructor(public createReport: Factory<ReportGenerator, { reportId: string }>) {}
+  }
+
+  function createBuilder(): ContainerBuilder {
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database);
+    builder.assisted(ReportGenerator, ReportGenerator, ['reportId'], { db: new Dep(Database) });
+    return builder;
+  }
+
+  it('should resolve with runtime arguments without caching', () => {
+    const container = createBuilder().build();
+
+    const first = container.resolveWith(ReportGenerator, { reportId: 'r1' });
+    const second = container.resolveWith(ReportGenerator, { reportId: 'r2' });
+
+    expect(first.reportId).toBe('r1');
+    expect(second.reportId).toBe('r2');
+    expect(first.db).toBe(container.resolve(Database));
+    expect(container.resolveWith(ReportGenerator, { reportId: 'r1' })).not.toBe(first);
+  });
+
+  it('should inject a typed factory filling in the rest from the graph', () => {
+    const builder = createBuilder();
+    builder.singleton(ReportController, ReportController, { createReport: new FactoryDependency(ReportGenerator) });
+    const container = builder.build();
+
+    const report = container.resolve(ReportController).createReport({ reportId: 'monthly' });
+
+    expect(report).toBeInstanceOf(ReportGenerator);
+    expect(report.reportId).toBe('monthly');
+    expect(report.db).toBe(container.resolve(Database));
+  });
+
+  it('should inject factories into decorated parameters and resolve async factories', async () => {
+    @Injectable()
+    class Session {
+      constructor(
+        public db: Database,
+        public connectionId: number
+      ) {}
+    }
+    @Injectable()
+    class Server {
+      constructor(@InjectFactory(Session) public createSession: Factory<Session, { connectionId: number }>) {}
+    }
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database);
+    builder.assisted(Session, Session, ['connectionId']);
+    builder.singleton(Server, Server);
+    expect(builder.build().resolve(Server).createSession({ connectionId: 7 }).connectionId).toBe(7);
+
+    const asyncBuilder = new ContainerBuilder();
+    asyncBuilder.singleton(Database, async () => new Database());
+    asyncBuilder.assisted(Session, Session, ['connectionId']);
+    const session = await asyncBuilder.build().resolveWithAsync(Session, { connectionId: 8 });
+    expect(session.connectionId).toBe(8);
+    expect(session.db).toBeInstanceOf(Database);
+  });
+
+  it('should only skip the runtime parameters when validating', () => {
+    const missing = new ContainerBuilder();
+    missing.assisted(ReportGenerator, ReportGenerator, ['reportId']);
+    expect(() => missing.build()).toThrow(MissingDependencyError);
+
+    const direct = createBuilder();
+    direct.singleton('report', ({ report }: { report: ReportGenerator }) => report, { report: new Dep(ReportGenerator) });
+    expect(() => direct.build()).toThrow(
+      'Failed to resolve report -> ReportGenerator: Type ReportGenerator needs runtime arguments reportId, inject a FactoryDependency'
+    );
+
+    const notAssisted = new ContainerBuilder();
+    notAssisted.singleton(Database, Database);
+    notAssisted.singleton(ReportController, ReportController, { createReport: new FactoryDependency(Database) });
+    expect(() => notAssisted.build()).toThrow('Type Database takes no runtime arguments, inject a ProviderDependency');
+
+    expect(() => new ContainerBuilder().assisted(ReportGenerator, ReportGenerator, ['id'])).toThrow(
+      "No runtime argument 'id' for factory for type ReportGenerator"
+    );
+  });
+
+  it('should require the runtime arguments when resolving', () => {
+    const container = createBuilder().build();
+
+    expect(() => container.resolve(ReportGenerator)).toThrow(
+      'Failed to resolve ReportGenerator: Missing runtime arguments reportId, use resolveWith or a FactoryDependency'
+    );
+    expect(() => container.resolveWith(ReportGenerator, {})).toThrow('Missing runtime arguments reportId');
+    expect(() => container.resolveWith(Database, { reportId: 'r1' })).toThrow(
+      'Type Database takes no runtime arguments, use resolve instead'
+    );
+  });
+
+  it('should keep runtime arguments for overridden assisted keys', () => {
+    const container = createBuilder().build().createTestContainer();
+    const overridden = container.withOverriddenSingleton(ReportGenerator, ({ reportId }: { reportId: string }) => ({
+      reportId: `fake ${reportId}`,
+    }));
+
+    expect(overridden.resolveWith<any>(ReportGenerator, { reportId: 'r1' }).reportId).toBe('fake r1');
+    expect(overridden.resolveWith<any>(ReportGenerator, { reportId: 'r2' }).reportId).toBe('fake r2');
+  });
+});
+
+describe('Eager singletons and onInit', () => {
+  function createTracked() {
+    const log: string[] = [];
+    class Config {
+      constructor() {
+        log.push('Config');
+      }
+    }
+    class Database {
+      connected = false;
+      constructor(public config: Config) {
+        log.push('Database');
+      }
+      onInit() {
+        log.push(`Database.onInit(${this.config instanceof Config})`);
+        this.connected = true;
+      }
+    }
+    class Cache {
+      constructor() {
+        log.push('Cache');
+      }
+    }
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database, { config: new Dep(Config) }, { eager: true });
+    builder.singleton(Config, Config);
+    builder.singleton(Cache, Cache);
+    builder.transient('request', () => log.push('request'));
+    return { builder, log, Database };
+  }
+
+  it('should create eager singletons in dependency order when building', () => {
+    const { builder, log, Database } = createTracked();
+
+    const container = builder.build();
+
+    expect(log).toEqual(['Config', 'Database', 'Database.onInit(true)']);
+    expect(container.resolve(Database).connected).toBe(true);
+    expect(log).toHaveLength(3);
+  });
+
+  it('should create every singleton with the eager build option', () => {
+    const { builder, log } = createTracked();
+
+    builder.build({ eager: true });
+
+    expect(log).toEqual(['Config', 'Database', 'Database.onInit(true)', 'Cache']);
+  });
+
+  it('should report every failed eager singleton with its path', () => {
+    const attempts: string[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton('db', () => {
+      attempts.push('db');
+      throw new Error('bad connection string');
+    });
+    builder.singleton('repository', ({ db }: { db: unknown }) => ({ db }), { db: new Dep('db') }, { eager: true });
+    builder.singleton('cache', ({ client }: { client: unknown }) => ({ client }), { client: new Dep('client') }, { eager: true });
+    builder.singleton('client', () => ({
+      onInit() {
+        throw new Error('cache unreachable');
+      },
+    }));
+    builder.singleton('mailer', () => 'mailer', {}, { eager: true });
+
+    let error: unknown;
+    try {
+      builder.build({ eager: true });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StartupError);
+    expect((error as StartupError).errors.map(e => e.path.map(step => step.name))).toEqual([['db'], ['client']]);
+    expect((error as StartupError).message).toBe(
+      [
+        'Failed to create eager singletons:',
+        '  - Failed to resolve db: bad connection string',
+        '  - Failed to resolve client: cache unreachable',
+      ].join('\n')
+    );
+    expect(attempts).toEqual(['db']);
+  });
+
+  it('should dispose the eager singletons created before a failure', async () => {
+    const disposed: string[] = [];
+    const builder = new ContainerBuilder();
+    builder.singleton('pool', () => ({ dispose: () => void disposed.push('pool') }), {}, { eager: true });
+    builder.singleton(
+      'search',
+      () => {
+        throw new Error('search unreachable');
+      },
+      {},
+      { eager: true }
+    );
+
+    let error: unknown;
+    try {
+      builder.build();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StartupError);
+    await (error as StartupError).disposal;
+    expect(disposed).toEqual(['pool']);
+
+    await expect(builder.buildAsync()).rejects.toThrow(StartupError);
+    expect(disposed).toEqual(['pool', 'pool']);
+  });
+
+  it('should await async factories and onInit hooks with buildAsync', async () => {
+    class Connection {
+      ready = false;
+      async onInit() {
+        await Promise.resolve();
+        this.ready = true;
+      }
+    }
+    const builder = new ContainerBuilder();
+    builder.singleton(Connection, Connection, {}, { eager: true });
+    builder.singleton('settings', async () => ({ url: 'db://' }), {}, { eager: true });
+
+    expect(() => builder.build()).toThrow(
+      'Eager singletons Connection, settings depend on async factories, use buildAsync instead of build'
+    );
+    const container = await builder.buildAsync();
+
+    expect(container.resolve<Connection>(Connection).ready).toBe(true);
+
+    const lazy = new ContainerBuilder();
+    lazy.transient(Connection, Connection);
+    expect(() => lazy.build().resolve(Connection)).toThrow('depends on an async factory, use resolveAsync');
+  });
+
+  it('should time out slow onInit hooks', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('slow', () => ({ onInit: () => new Promise(() => undefined) }), {}, { eager: true, isAsync: true });
+    builder.singleton('patient', () => ({ onInit: () => new Promise(resolve => setTimeout(resolve, 20)) }), {}, {
+      eager: true,
+      isAsync: true,
+      initTimeout: 1000,
+    });
+
+    await expect(builder.buildAsync({ initTimeout: 10 })).rejects.toThrow(
+      'Failed to resolve slow: onInit() of slow did not complete within 10ms'
+    );
+  });
+
+  it('should only accept eager singletons', () => {
+    expect(() => new ContainerBuilder().transient('request', () => 1, {}, { eager: true })).toThrow(
+      'Type request cannot be eager, only singletons are created when building'
+    );
+  });
+});
+
+describe('Class scanning', () => {
+  class Logger {
+    log(message: string) {
+      return message;
+    }
+  }
+
+  @Injectable({ provides: Logger })
+  class ConsoleLogger extends Logger {
+    log(message: string) {
+      return `console: ${message}`;
+    }
+  }
+
+  @Injectable({ lifetime: 'transient' })
+  class Request {
+    constructor(public logger: Logger) {}
+  }
+
+  it('should register decorated classes with their metadata', () => {
+    const builder = new ContainerBuilder();
+    builder.scan(ConsoleLogger, [Request]);
+    const container = builder.build();
+
+    const request = container.resolve<Request>(Request);
+    expect(request.logger.log('hi')).toBe('console: hi');
+    expect(request.logger).toBe(container.resolve(Logger));
+    expect(container.resolve(Request)).not.toBe(request);
+  });
+
+  it('should scan module namespace objects and skip undecorated exports', () => {
+    @Injectable({ provides: Logger, name: 'audit' })
+    class AuditLogger extends Logger {
+      log(message: string) {
+        return `audit: ${message}`;
+      }
+    }
+    @Injectable()
+    class Plain {}
+    const namespace = { ConsoleLogger, AuditLogger, Default: ConsoleLogger, Plain, VERSION: '1.0' };
+
+    const builder = new ContainerBuilder();
+    builder.scan(namespace);
+    const container = builder.build();
+
+    expect(container.resolve<Logger>(Logger).log('a')).toBe('console: a');
+    expect(container.resolve<Logger>(Logger, 'audit').log('a')).toBe('audit: a');
+    expect(() => container.resolve(Plain)).toThrow(MissingDependencyError);
+  });
+
+  it('should prefer explicit registrations over scanned ones', () => {
+    class TestLogger extends Logger {
+      log(message: string) {
+        return `test: ${message}`;
+      }
+    }
+    const builder = new ContainerBuilder();
+    builder.singleton(Logger, TestLogger);
+    builder.scan(ConsoleLogger);
+
+    expect(builder.build().resolve<Logger>(Logger).log('a')).toBe('test: a');
+  });
+
+  it('should report conflicting providers with both class names', () => {
+    @Injectable({ provides: Logger })
+    class FileLogger extends Logger {
+      log(message: string) {
+        return `file: ${message}`;
+      }
+    }
+    const builder = new ContainerBuilder();
+    builder.scan(ConsoleLogger);
+
+    expect(() => builder.scan({ FileLogger })).toThrow('Duplicate providers for Logger: ConsoleLogger and FileLogger');
+  });
+
+  it('should reject classes without registration metadata', () => {
+    @Injectable()
+    class Plain {}
+    class Subclass extends ConsoleLogger {}
+
+    expect(() => new ContainerBuilder().scan(Plain)).toThrow(
+      'Class Plain has no @Injectable({ lifetime }) registration to scan'
+    );
+    expect(() => new ContainerBuilder().scan([Subclass])).toThrow('Class Subclass has no @Injectable');
+  });
+});
+
+describe('Standard decorators', () => {
+  class Database {}
+  class Logger {}
+
+  it('should resolve dependencies declared with @Injectable({ deps }) before reflected types', () => {
+    @Injectable({ deps: [Database, new Dep('logger')] })
+    class Service {
+      constructor(public db: unknown, public logger: Logger) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database);
+    builder.singleton('logger', () => new Logger());
+    builder.singleton(Service, Service);
+    const container = builder.build();
+
+    expect(container.resolve(Service).db).toBeInstanceOf(Database);
+    expect(container.resolve(Service).logger).toBe(container.resolve('logger'));
+    expect(JSON.parse(container.exportGraph({ format: 'json', root: Service })).edges).toEqual([
+      expect.objectContaining({ parameter: 'db', source: 'declared' }),
+      expect.objectContaining({ parameter: 'logger', source: 'declared' }),
+    ]);
+  });
+
+  it('should read a static inject property of minified classes', () => {
+    // Shape of a class after esbuild: mangled names and no design:paramtypes
+    const Minified: Constructor = new Function('return class x{constructor(e,t){this.db=e,this.size=t}}')();
+    Object.assign(Minified, { inject: [Database, new ConfigValue('pool.size', { type: 'number' })] });
+
+    const builder = new ContainerBuilder();
+    builder.config({ pool: { size: 4 } });
+    builder.singleton(Database, Database);
+    builder.singleton(Minified, Minified);
+    const instance = builder.build().resolve(Minified);
+
+    expect(instance.db).toBeInstanceOf(Database);
+    expect(instance.size).toBe(4);
+  });
+
+  it('should validate declared dependencies when building', () => {
+    class Service {
+      static inject = [Database, Logger];
+      constructor(public db: Database, public logger: Logger) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database);
+    builder.singleton(Service, Service);
+
+    expect(() => builder.build()).toThrow(MissingDependencyError);
+  });
+
+  it('should not inherit declared dependencies', () => {
+    class Base {
+      static inject = [Database];
+      constructor(public db: Database) {}
+    }
+    class Child extends Base {
+      constructor(public logger: Logger) {
+        super(new Database());
+      }
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Database, Database);
+    builder.singleton('logger', () => new Logger());
+    builder.singleton(Child, Child);
+
+    expect(builder.build().resolve(Child).logger).toBeInstanceOf(Logger);
+  });
+
+  it('should not scan classes that only declare dependencies', () => {
+    const Service = class {};
+    Injectable({ deps: [Database] })(Service);
+
+    expect(() => new ContainerBuilder().scan(Service)).toThrow('has no @Injectable({ lifetime }) registration to scan');
+  });
+
+  describe('fixture project', () => {
+    const fixture = path.join(__dirname, '__fixtures__', 'decorators', 'app.ts');
+
+    // Type check the fixture with the repository's compiler options and evaluate it against this module
+    const compile = (options: ts.CompilerOptions) => {
+      const { config } = ts.readConfigFile(path.join(__dirname, '..', 'tsconfig.json'), ts.sys.readFile);
+      const { options: base } = ts.convertCompilerOptionsFromJson(config.compilerOptions, path.join(__dirname, '..'));
+      const program = ts.createProgram([fixture], { ...base, ...options, declaration: false, sourceMap: false });
+      const diagnostics = ts.getPreEmitDiagnostics(program).map(diagnostic =>
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      );
+
+      let output = '';
+      program.emit(program.getSourceFile(fixture), (_fileName, text) => (output = text));
+      const module = { exports: {} as any };
+      const load = (id: string) => (id === '../../index' ? independency : require(id));
+      new Function('require', 'module', 'exports', output)(load, module, module.exports);
+      return { diagnostics, output, app: module.exports };
+    };
+
+    it('should behave the same with experimental and standard decorators', () => {
+      const experimental = compile({ experimentalDecorators: true, emitDecoratorMetadata: true });
+      const standard = compile({ experimentalDecorators: false, emitDecoratorMetadata: false });
+
+      expect(experimental.diagnostics).toEqual([]);
+      expect(standard.diagnostics).toEqual([]);
+      expect(experimental.output).toContain('design:paramtypes');
+      expect(standard.output).not.toContain('design:paramtypes');
+      expect(standard.output).toContain('__esDecorate');
+
+      const result = standard.app.run();
+      expect(result).toEqual(experimental.app.run());
+      expect(result).toMatchObject({ url: 'db://users', channels: ['app', 'audit'], retention: 30, transient: true });
+      expect(result.graph.edges.map((edge: { source: string }) => edge.source)).toEqual(
+        Array(6).fill('declared')
+      );
+    }, 60000);
+  });
+});
+
+describe('Optional dependencies', () => {
+  class Cache {
+    constructor(public name = 'redis') {}
+  }
+
+  it('should check for registrations with has', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(Cache, () => new Cache(), {}, { name: 'local' });
+    builder.multi('plugin', () => 1);
+    builder.alias('cache', Cache);
+    const container = builder.build();
+
+    expect(container.has(Cache)).toBe(true);
+    expect(container.has(Cache, 'local')).toBe(true);
+    expect(container.has(Cache, 'remote')).toBe(false);
+    expect(container.has('cache')).toBe(true);
+    expect(container.has('sentry')).toBe(false);
+    expect(container.has('plugin')).toBe(false);
+    expect(container.createChild(child => child.value('sentry', {})).has('sentry')).toBe(true);
+  });
+
+  it('should resolve unregistered keys to undefined with tryResolve', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(Cache, () => new Cache());
+    builder.singleton('failing', () => {
+      throw new Error('unavailable');
+    });
+    const container = builder.build();
+
+    expect(container.tryResolve(Cache)).toBe(container.resolve(Cache));
+    expect(container.tryResolve('sentry')).toBeUndefined();
+    expect(container.tryResolve(Cache, 'remote')).toBeUndefined();
+    expect(await container.tryResolveAsync('sentry')).toBeUndefined();
+    expect(await container.tryResolveAsync(Cache)).toBe(container.resolve(Cache));
+    expect(() => container.tryResolve('failing')).toThrow('unavailable');
+  });
+
+  it('should inject fallbacks of optional Dependency kwargs', () => {
+    const builder = new ContainerBuilder();
+    builder.transient(
+      'service',
+      ({ cache, tracer, sentry }) => ({ cache, tracer, sentry }),
+      {
+        cache: new Dep(Cache, { factory: () => new Cache('memory') }),
+        tracer: new Dep('tracer', { default: 'noop' }),
+        sentry: new Dep('sentry', { optional: true }),
+      }
+    );
+    const container = builder.build();
+    const service = container.resolve<{ cache: Cache; tracer: string; sentry: unknown }>('service');
+
+    expect(service.cache.name).toBe('memory');
+    expect(container.resolve<{ cache: Cache }>('service').cache).not.toBe(service.cache);
+    expect(service.tracer).toBe('noop');
+    expect(service.sentry).toBeUndefined();
+    expect(new Dep('tracer', { default: undefined }).optional).toBe(true);
+  });
+
+  it('should inject fallbacks of optional parameters', async () => {
+    const shared = new Cache('shared');
+
+    @Injectable()
+    class Service {
+      constructor(
+        @Optional({ default: shared }) public cache: Cache,
+        @Optional({ factory: () => ['console'] }) @Inject('sinks') public sinks: string[]
+      ) {}
+    }
+
+    class Declared {
+      static inject = [new Dep(Cache, { default: shared })];
+      constructor(public cache: Cache) {}
+    }
+
+    const builder = new ContainerBuilder();
+    builder.singleton(Service, Service);
+    builder.singleton(Declared, Declared);
+    const container = builder.build();
+
+    expect(container.resolve(Service).cache).toBe(shared);
+    expect(container.resolve(Service).sinks).toEqual(['console']);
+    expect((await container.resolveAsync(Declared)).cache).toBe(shared);
+  });
+
+  it('should validate optional dependencies only when they are registered', () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('service', ({ cache }) => cache, { cache: new Dep(Cache, { default: new Cache('memory') }) });
+    builder.singleton(Cache, ({ url }) => new Cache(url), { url: new Dep('url') });
+
+    expect(() => builder.build()).toThrow('No dependency of type url needed by Cache');
+
+    builder.value('url', 'redis://');
+    expect(builder.build().resolve<Cache>('service').name).toBe('redis://');
+  });
+});
+
+describe('Test doubles', () => {
+  class Mailer {
+    send(to: string): boolean {
+      throw new Error(`Sending real mail to ${to}`);
+    }
+    dispose() {
+      throw new Error('Closing real connection');
+    }
+  }
+
+  class BulkMailer extends Mailer {
+    get ready() {
+      return true;
+    }
+    sendAll(recipients: string[]) {
+      return recipients.map(to => this.send(to));
+    }
+  }
+
+  @Injectable()
+  class Signup {
+    constructor(public mailer: Mailer) {}
+    register(email: string) {
+      return this.mailer.send(email);
+    }
+  }
+
+  const createContainer = () => {
+    const builder = new ContainerBuilder();
+    builder.singleton(Mailer, Mailer);
+    builder.singleton(Signup, Signup);
+    builder.singleton('clock', () => ({ now: () => 0 }));
+    return builder.build();
+  };
+
+  it('should override keys with values without changing the original', async () => {
+    const container = createContainer().createTestContainer();
+    const fake = { send: () => true } as unknown as Mailer;
+    const testContainer = container.withValue(Mailer, fake);
+
+    expect(testContainer.resolve(Signup).register('a@example.com')).toBe(true);
+    expect(testContainer.resolve(Mailer)).toBe(fake);
+    expect(() => container.resolve(Signup).register('a@example.com')).toThrow('Sending real mail');
+    expect(() => container.withValue('sentry', {})).toThrow('Cannot override class without any registration');
+
+    // Test doubles are owned by the test
+    Object.assign(fake, { dispose: jest.fn() });
+    await testContainer.dispose();
+    expect(fake.dispose).not.toHaveBeenCalled();
+  });
+
+  it('should auto-mock every method of the class with jest-compatible mocks', () => {
+    const testContainer = createContainer().createTestContainer().withAutoMock(Mailer);
+    const mailer = testContainer.resolve(Mailer) as AutoMock<Mailer>;
+
+    expect(mailer).toBeInstanceOf(Mailer);
+    expect(testContainer.resolve(Signup).register('a@example.com')).toBeUndefined();
+    expect(mailer.send).toHaveBeenCalledWith('a@example.com');
+    expect(mailer.send.getMockName()).toBe('Mailer.send');
+
+    mailer.send.mockReturnValue(true);
+    expect(testContainer.resolve(Signup).register('b@example.com')).toBe(true);
+    expect(mailer.send.mock.calls).toEqual([['a@example.com'], ['b@example.com']]);
+    expect(mailer.send.mock.results).toEqual([
+      { type: 'return', value: undefined },
+      { type: 'return', value: true },
+    ]);
+
+    mailer.send.mockImplementation(to => {
+      throw new Error(`Bounced ${to}`);
+    });
+    expect(() => mailer.send('c@example.com')).toThrow('Bounced c@example.com');
+    expect(mailer.send.mock.results[2]).toEqual({ type: 'throw', value: new Error('Bounced c@example.com') });
+
+    mailer.send.mockClear();
+    expect(mailer.send).not.toHaveBeenCalled();
+  });
+
+  it('should auto-mock inherited methods, leave getters and accept a mock factory', async () => {
+    const builder = new ContainerBuilder();
+    builder.singleton('mailer', BulkMailer);
+    builder.singleton('clock', () => ({ now: () => 0 }));
+    const container = builder.build().createTestContainer();
+
+    const mailer = container.withAutoMock('mailer', () => jest.fn()).resolve<AutoMock<BulkMailer>>('mailer');
+    mailer.sendAll.mockResolvedValue([true]);
+
+    expect(jest.isMockFunction(mailer.send)).toBe(true);
+    expect(await mailer.sendAll(['a@example.com'])).toEqual([true]);
+    expect(mailer.ready).toBe(true);
+    expect(() => container.withAutoMock('clock')).toThrow('Cannot auto-mock clock, it is not registered with a class');
+  });
+
+  it('should report overrides that were never resolved', async () => {
+    const container = createContainer().createTestContainer();
+    const testContainer = container
+      .withAutoMock(Mailer)
+      .withValue('clock', { now: () => 1 })
+      .withOverridden(Signup, () => new Signup(new Mailer()), 'transient');
+
+    expect(() => testContainer.assertAllOverridesUsed()).toThrow(
+      'Overrides of Mailer, clock, Signup were never resolved'
+    );
+
+    testContainer.resolve(Signup);
+    await testContainer.resolveAsync('clock');
+    expect(() => testContainer.assertAllOverridesUsed()).toThrow('Overrides of Mailer were never resolved');
+
+    // A derived container tracks the overrides it inherits on its own, through its scopes and children
+    const derived = testContainer.withoutDecorators().withValue(Mailer, new Mailer());
+    expect(() => derived.assertAllOverridesUsed()).toThrow('Overrides of Mailer, clock, Signup were never resolved');
+    derived.createScope().resolve(Mailer);
+    derived.createChild(() => undefined).resolve('clock');
+    derived.resolve(Signup);
+    derived.assertAllOverridesUsed();
+    container.assertAllOverridesUsed();
+  });
+
+  it('should not count resolutions of derived containers for the container they come from', () => {
+    const base = createContainer().createTestContainer();
+    const withClock = base.withValue('clock', { now: () => 1 });
+    const derived = withClock.withValue(Mailer, new Mailer());
+
+    derived.resolve('clock');
+    derived.resolve(Mailer);
+
+    derived.assertAllOverridesUsed();
+    expect(() => withClock.assertAllOverridesUsed()).toThrow('Overrides of clock were never resolved');
+  });
+});
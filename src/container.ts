@@ -2,29 +2,577 @@ import 'reflect-metadata';
 
 // Type definitions
 export type Constructor<T = any> = new (...args: any[]) => T;
-export type Factory<T = any> = (...args: any[]) => T;
-export type ServiceKey<T = any> = string | symbol | Constructor<T>;
+// Registration factory, or with A the factory injected for an assisted registration taking A as runtime arguments
+export type Factory<T = any, A extends Record<string, any> | void = void> = [A] extends [void]
+  ? (...args: any[]) => T
+  : (args: A) => T;
+export type AsyncFactory<T = any> = (...args: any[]) => Promise<T>;
+export type ServiceKey<T = any> = string | symbol | Constructor<T> | InjectionToken<T>;
+export type Lifetime = 'singleton' | 'transient' | 'scoped';
+export type Disposer<T = any> = (instance: T) => void | Promise<void>;
+export type Provider<T = any> = () => T;
+export type DependencySource = 'kwargs' | 'decorator' | 'declared' | 'reflection' | 'name';
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+export type Decorator<T = any> = (instance: T, context: DecoratorContext<T>) => T;
+
+// Registration a decorator or interceptor is applied to
+export interface DecorationTarget<T = any> {
+  key: ServiceKey<T>;
+  name?: string; // Set for named registrations
+  lifetime: Lifetime;
+}
+
+// Second argument of a decorator
+export interface DecoratorContext<T = any> extends DecorationTarget<T> {
+  deps: Record<string, any>; // Dependencies and constants from the decorator's kwargs
+}
+
+// Options for Container.exportGraph
+export interface ExportGraphOptions {
+  format: GraphFormat;
+  root?: ServiceKey; // Only export the subgraph reachable from this key
+}
+
+// Dependency graph as exported in the json format
+export interface DependencyGraph {
+  nodes: { id: string; name: string; lifetime: Lifetime }[];
+  edges: {
+    from: string;
+    to: string;
+    parameter: string;
+    source: DependencySource; // kwargs Dependency, parameter decorator, declared deps, reflected type or parameter name
+    multi: boolean;
+    deferred?: 'lazy' | 'provider' | 'factory';
+  }[];
+}
+
+// One key on a resolution path, from the requested key towards the failing one
+export interface ResolutionStep {
+  key: ServiceKey;
+  name: string;
+  lifetime?: Lifetime; // Unset for a key that is not registered
+  parameter?: string; // Parameter of the previous step that requested this key
+  module?: string; // Module the registration was installed from
+}
+
+// Payload of resolve:start, emitted before a registration is created or a key resolved directly is found missing
+export interface ResolutionEvent {
+  id: number;
+  parentId?: number; // Id of the resolution that requested this one, unset for keys resolved directly
+  key: ServiceKey;
+  name: string;
+  lifetime?: Lifetime; // Unset for a key that is not registered
+  depth: number; // Number of ancestors on the resolution path
+}
+
+export interface ResolveEndEvent extends ResolutionEvent {
+  duration: number; // Milliseconds, including the dependencies
+  cached: boolean; // The instance was not created by this resolution
+}
+
+export interface ResolveErrorEvent extends ResolutionEvent {
+  duration: number;
+  error: unknown;
+}
+
+// Events emitted by Container.on
+export interface ResolutionEvents {
+  'resolve:start': ResolutionEvent;
+  'resolve:end': ResolveEndEvent;
+  'resolve:error': ResolveErrorEvent;
+}
+
+// Options of Dependency and LazyDependency, a string is a shorthand for { name }
+export interface DependencyOptions {
+  name?: string; // Qualifier of a named registration
+  allowCaptive?: boolean; // A singleton deliberately keeps a shorter-lived instance
+}
+
+// Injected instead of an optional dependency whose key is not registered, undefined without either
+export interface FallbackOptions<T = any> {
+  default?: T; // Injected as is
+  factory?: () => T; // Called for each injection
+}
+
+// Options of Dependency, a dependency with a fallback is optional
+export interface OptionalDependencyOptions<T = any> extends DependencyOptions, FallbackOptions<T> {
+  optional?: boolean; // Inject the fallback when the key is not registered
+}
+
+// How build() handles a singleton depending on a shorter-lived registration
+export type CaptiveDependencyMode = 'error' | 'ignore' | ((error: CaptiveDependencyError) => void);
+
+// Options of a ContainerBuilder
+export interface ContainerBuilderOptions {
+  captiveDependencies?: CaptiveDependencyMode; // Defaults to 'ignore'
+}
+
+// Options accepted by singleton/transient registrations
+export interface RegistrationOptions<T = any> {
+  isAsync?: boolean; // Required for factories that return a Promise without being declared `async`
+  dispose?: Disposer<T>; // Overrides dispose() / Symbol.dispose / Symbol.asyncDispose detection
+  name?: string; // Qualifier telling apart several registrations of the same key
+  eager?: boolean; // Create the singleton when the container is built
+  initTimeout?: number; // Milliseconds an async onInit() may take, overrides the build option
+}
+
+// Constructor dependency declared by @Injectable({ deps }) or a static inject property, a key or a dependency marker
+export type DeclaredDependency =
+  | ServiceKey
+  | Dependency
+  | MultiDependency
+  | LazyDependency
+  | ProviderDependency
+  | FactoryDependency
+  | ConfigValue;
+
+// Registration recorded by @Injectable and registered by ContainerBuilder.scan
+export interface InjectableOptions {
+  lifetime?: Lifetime; // Defaults to singleton
+  provides?: ServiceKey; // Key the class is registered under, the class itself by default
+  name?: string; // Qualifier of a named registration
+  deps?: readonly DeclaredDependency[]; // Constructor dependencies in parameter order, not a registration by itself
+}
+
+// Stub recording its calls, compatible with the jest mock matchers like toHaveBeenCalledWith
+export interface MockFunction<A extends any[] = any[], R = any> {
+  (...args: A): R;
+  readonly _isMockFunction: true;
+  readonly mock: {
+    calls: A[];
+    results: { type: 'return' | 'throw'; value: unknown }[];
+    contexts: unknown[];
+    lastCall?: A;
+  };
+  getMockName(): string;
+  mockImplementation(implementation: (...args: A) => R): this;
+  mockReturnValue(value: R): this;
+  mockResolvedValue(value: Awaited<R>): this;
+  mockRejectedValue(error: unknown): this;
+  mockClear(): this;
+}
+
+// Instance created by TestContainer.withAutoMock, every method is a mock function
+export type AutoMock<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => infer R ? T[K] & MockFunction<A, R> : T[K];
+};
+
+// Options of ContainerBuilder.build and buildAsync
+export interface BuildOptions {
+  eager?: boolean; // Create every singleton, not only those registered as eager
+  initTimeout?: number; // Milliseconds an async onInit() may take, unlimited by default
+}
+
+// Options of ContainerBuilder.alias
+export interface AliasOptions {
+  deprecated?: string; // Warning shown the first time the alias is resolved, e.g. 'use Logger'
+}
+
+// Type a configuration value is coerced to, values from environment variables are strings
+export type ConfigType = 'string' | 'number' | 'boolean';
+
+// Options of ConfigValue and @Config
+export interface ConfigValueOptions<T = any> {
+  type?: ConfigType; // Inferred from the reflected parameter type by @Config
+  default?: T; // Used when no source defines the path
+  optional?: boolean; // Inject undefined when no source defines the path
+  validate?: (value: T) => string | undefined; // Returns the problem with an invalid value
+}
+
+// Source of configuration values passed to ContainerBuilder.config
+export interface ConfigSource {
+  readonly name: string; // Shown in validation errors
+  get(path: string): unknown; // Undefined when the source does not define the path
+}
+
+// Symbol.dispose and Symbol.asyncDispose are not defined on every runtime yet
+(Symbol as any).dispose ??= Symbol.for('Symbol.dispose');
+(Symbol as any).asyncDispose ??= Symbol.for('Symbol.asyncDispose');
 
 // Custom error class
 export class ContainerError extends Error {
-  constructor(message: string) {
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
     super(message);
     this.name = 'ContainerError';
+    if ('cause' in options) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+// Error collecting several failures, e.g. from disposing multiple instances
+export class AggregateContainerError extends ContainerError {
+  constructor(
+    message: string,
+    public readonly errors: unknown[]
+  ) {
+    super(message);
+    this.name = 'AggregateContainerError';
+  }
+}
+
+// Error listing every missing or invalid configuration value at once
+export class ConfigError extends AggregateContainerError {
+  constructor(public readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`,
+      problems.map(problem => new ContainerError(problem))
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+// Error listing every eager singleton that could not be created while building
+export class StartupError extends AggregateContainerError {
+  // Teardown of the eager singletons created before the failure, rejects when one of them fails to dispose
+  public disposal: Promise<void> = Promise.resolve();
+
+  constructor(public readonly errors: ResolutionError[]) {
+    super(`Failed to create eager singletons:\n${errors.map(error => `  - ${error.message}`).join('\n')}`, errors);
+    this.name = 'StartupError';
+  }
+}
+
+// Error raised while resolving a key, the path leads from the requested key to the failing one
+export class ResolutionError extends ContainerError {
+  constructor(
+    public readonly path: ResolutionStep[],
+    public readonly reason: string,
+    cause?: unknown,
+    message = `Failed to resolve ${formatResolutionPath(path)}: ${reason}`
+  ) {
+    super(message, cause === undefined ? {} : { cause });
+    this.name = 'ResolutionError';
+  }
+}
+
+// Error for a key that is requested but not registered, the last step of the path is the missing key
+export class MissingDependencyError extends ResolutionError {
+  constructor(
+    path: ResolutionStep[],
+    public readonly suggestions: string[] = []
+  ) {
+    const missing = path[path.length - 1].name;
+    const reason =
+      path.length > 1
+        ? `No dependency of type ${missing} needed by ${getStepName(path[path.length - 2])}`
+        : `No dependency of type ${missing}`;
+    const hint = suggestions.length > 0 ? `. Did you mean ${suggestions.join(', ')}?` : '';
+    const chain = path.length > 2 ? `: ${formatResolutionPath(path)}` : '';
+    super(path, reason, undefined, `${reason}${chain}${hint}`);
+    this.name = 'MissingDependencyError';
+  }
+}
+
+// Error for a dependency cycle, the path ends with the key that closes the cycle
+export class CyclicDependencyError extends ResolutionError {
+  constructor(path: ResolutionStep[]) {
+    const reason = `Cycle dependencies for type ${getStepName(path[path.length - 1])}`;
+    super(path, reason, undefined, `${reason}: ${formatResolutionPath(path)}`);
+    this.name = 'CyclicDependencyError';
+  }
+}
+
+// Error for a singleton depending on a shorter-lived registration, the path ends with the captured registration
+export class CaptiveDependencyError extends ResolutionError {
+  constructor(path: ResolutionStep[]) {
+    const captured = path[path.length - 1];
+    const reason = `Singleton ${getStepName(path[path.length - 2])} captures ${captured.lifetime} ${getStepName(captured)}`;
+    super(path, reason, undefined, `${reason}: ${formatResolutionPath(path)}`);
+    this.name = 'CaptiveDependencyError';
+  }
+}
+
+// Error for an unqualified request of a key registered only under several names
+export class AmbiguousDependencyError extends ResolutionError {
+  constructor(
+    path: ResolutionStep[],
+    public readonly names: string[]
+  ) {
+    const requested = path[path.length - 1].name;
+    const neededBy = path.length > 1 ? ` needed by ${getStepName(path[path.length - 2])}` : '';
+    const reason = `Ambiguous dependency of type ${requested}${neededBy}, registered with names ${names.join(', ')} and no default`;
+    const chain = path.length > 2 ? `: ${formatResolutionPath(path)}` : '';
+    super(path, reason, undefined, `${reason}${chain}`);
+    this.name = 'AmbiguousDependencyError';
+  }
+}
+
+// Typed key for values that have no class of their own, e.g. new InjectionToken<Database>('db')
+export class InjectionToken<T = any> {
+  declare readonly __type?: T; // Carries T through resolve(), never set at runtime
+
+  constructor(public readonly description: string) {}
+
+  toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
+
+// Key a module registers a key under when it does not export it
+class PrivateKey<T = any> extends InjectionToken<T> {}
+
+// Key of a named registration, one instance per key and name so that it can be used as a registry key
+class QualifiedKey<T = any> extends InjectionToken<T> {
+  constructor(
+    public readonly key: ServiceKey<T>,
+    public readonly name: string
+  ) {
+    super(`${getKeyName(key)} (${name})`);
+  }
+}
+
+// Key the value of a ConfigValue is registered under, one instance per ConfigValue
+class ConfigKey<T = any> extends PrivateKey<T> {
+  constructor(public readonly value: ConfigValue<T>) {
+    super(`config ${value.path}`);
+  }
+}
+
+const configKeys = new WeakMap<ConfigValue, ConfigKey>();
+
+function getConfigKey<T>(value: ConfigValue<T>): ConfigKey<T> {
+  let key = configKeys.get(value);
+  if (!key) {
+    key = new ConfigKey(value);
+    configKeys.set(value, key);
+  }
+  return key;
+}
+
+// One key per registered or declared name, so that registrations and dependencies find each other.
+// Only code creates them, names given to has() or resolve() at runtime are looked up without being added
+const qualifiedKeys = new Map<ServiceKey, Map<string, QualifiedKey>>();
+
+function qualifyKey<T>(key: ServiceKey<T>, name?: string): ServiceKey<T> {
+  if (name === undefined) {
+    return key;
+  }
+  const byName = qualifiedKeys.get(key) || new Map<string, QualifiedKey>();
+  qualifiedKeys.set(key, byName);
+  let qualified = byName.get(name);
+  if (!qualified) {
+    qualified = new QualifiedKey(key, name);
+    byName.set(name, qualified);
   }
+  return qualified;
+}
+
+// A name nothing was registered or declared with gets a key of its own, which no registry holds
+function findQualifiedKey<T>(key: ServiceKey<T>, name?: string): ServiceKey<T> {
+  if (name === undefined) {
+    return key;
+  }
+  return qualifiedKeys.get(key)?.get(name) ?? new QualifiedKey(key, name);
 }
 
 // Dependency wrapper for explicit dependency injection
 export class Dependency<T = any> {
-  constructor(public readonly key: ServiceKey<T>) {}
+  readonly name?: string;
+  readonly allowCaptive: boolean;
+  readonly optional: boolean;
+  readonly fallback?: () => T;
+
+  constructor(
+    public readonly key: ServiceKey<T>,
+    options: string | OptionalDependencyOptions<T> = {}
+  ) {
+    const { name, allowCaptive = false, optional = false, ...fallback } =
+      typeof options === 'string' ? { name: options } : options;
+    this.name = name;
+    this.allowCaptive = allowCaptive;
+    this.fallback = getFallback(fallback);
+    this.optional = optional || this.fallback !== undefined;
+  }
+}
+
+// Provider of the value injected for a missing optional dependency
+function getFallback<T>(options: FallbackOptions<T>): (() => T) | undefined {
+  if (options.factory) {
+    return options.factory;
+  }
+  if ('default' in options) {
+    const value = options.default as T;
+    return () => value;
+  }
+  return undefined;
+}
+
+// Dependency wrapper injecting every multi-binding of a key as an array
+export class MultiDependency<T = any> {
+  readonly allowCaptive: boolean;
+
+  constructor(
+    public readonly key: ServiceKey<T>,
+    options: Omit<DependencyOptions, 'name'> = {}
+  ) {
+    this.allowCaptive = options.allowCaptive ?? false;
+  }
+}
+
+// Dependency wrapper injecting a Lazy<T> resolved on first access
+export class LazyDependency<T = any> {
+  readonly name?: string;
+  readonly allowCaptive: boolean;
+
+  constructor(
+    public readonly key: ServiceKey<T>,
+    options: string | DependencyOptions = {}
+  ) {
+    const { name, allowCaptive = false } = typeof options === 'string' ? { name: options } : options;
+    this.name = name;
+    this.allowCaptive = allowCaptive;
+  }
+}
+
+// Dependency wrapper injecting a Provider<T> resolving on each call
+export class ProviderDependency<T = any> {
+  constructor(
+    public readonly key: ServiceKey<T>,
+    public readonly name?: string
+  ) {}
+}
+
+// Dependency wrapper injecting a Factory creating an assisted registration from its runtime arguments
+export class FactoryDependency<T = any> {
+  constructor(
+    public readonly key: ServiceKey<T>,
+    public readonly name?: string
+  ) {}
+}
+
+// Configuration value injected by its dot separated path, e.g. new ConfigValue('db.port', { type: 'number' })
+export class ConfigValue<T = any> {
+  constructor(
+    public readonly path: string,
+    public readonly options: ConfigValueOptions<T> = {}
+  ) {}
+}
+
+// Configuration source reading nested objects, e.g. parsed JSON
+export class ObjectConfigSource implements ConfigSource {
+  constructor(
+    private readonly values: Record<string, any>,
+    public readonly name = 'object'
+  ) {}
+
+  get(path: string): unknown {
+    let value: any = this.values;
+    for (const segment of path.split('.')) {
+      if (value === null || typeof value !== 'object' || !(segment in value)) {
+        return undefined;
+      }
+      value = value[segment];
+    }
+    return value;
+  }
+}
+
+// Configuration source reading environment variables, `db.maxConnections` is read from `${prefix}DB_MAX_CONNECTIONS`
+export class EnvConfigSource implements ConfigSource {
+  readonly name = 'env';
+  private readonly prefix: string;
+
+  constructor(
+    private readonly env: Record<string, string | undefined>,
+    options: { prefix?: string } = {}
+  ) {
+    this.prefix = options.prefix ?? '';
+  }
+
+  get(path: string): unknown {
+    const variable = path
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/[.-]/g, '_')
+      .toUpperCase();
+    return this.env[this.prefix + variable];
+  }
+}
+
+// Deferred dependency, resolved on first access of value
+export class Lazy<T = any> {
+  private instance?: T;
+  private isResolved = false;
+
+  constructor(private readonly resolver: Provider<T>) {}
+
+  get value(): T {
+    if (!this.isResolved) {
+      this.instance = this.resolver();
+      this.isResolved = true;
+    }
+    return this.instance as T;
+  }
 }
 
+// Metadata key for constructor parameters marked with @Inject, @InjectAll or @Optional
+const PARAMETERS_METADATA = 'independency:parameters';
+
+// Metadata key for the registration options given to @Injectable
+const INJECTABLE_METADATA = 'independency:injectable';
+
+// Metadata key for the constructor dependencies given to @Injectable({ deps })
+const DEPENDENCIES_METADATA = 'independency:dependencies';
+
+// Per-index constructor parameter metadata recorded by parameter decorators
+interface ParameterMetadata {
+  key?: ServiceKey;
+  name?: string;
+  multi?: boolean;
+  allowCaptive?: boolean;
+  optional?: boolean;
+  fallback?: () => unknown;
+  deferred?: Deferred;
+  config?: ConfigValue;
+}
+
+// How a deferred edge is injected; deferred edges do not take part in cycle detection
+type Deferred = 'lazy' | 'provider' | 'factory';
+
 // Registration information
 interface Registration<T = any> {
   key: ServiceKey<T>;
-  factory: Factory<T>;
-  isSingleton: boolean;
+  factory: Factory<T> | AsyncFactory<T>;
+  lifetime: Lifetime;
+  isAsync: boolean;
   kwargs: Record<string, any>;
   originalConstructor?: Constructor<T>; // Store original constructor for auto-resolution
+  dispose?: Disposer<T>;
+  module?: string; // Name of the module the registration was installed from
+  keyMap?: Map<ServiceKey, ServiceKey>; // Keys private to the module, mapped to their registry keys
+  decorations?: Decoration[]; // Applied in order to the created instance
+  isValue?: boolean; // Instance given to ContainerBuilder.value, disposed by its owner
+  assisted?: string[]; // Parameters supplied at resolve time by resolveWith or an injected Factory
+  eager?: boolean;
+  initTimeout?: number;
+  alias?: { target: ServiceKey; deprecated?: string }; // Replaced by the target's registration when building
+  override?: symbol; // Identifies a TestContainer override, also on its decorated copies
+}
+
+// Decorator or interceptor with the kwargs holding its dependencies
+interface Decoration {
+  decorate: Decorator;
+  kwargs: Record<string, any>;
+}
+
+// Edge from a registration to one of its dependencies
+interface DependencyEdge {
+  key: ServiceKey;
+  multi: boolean; // Inject every multi-binding of the key as an array
+  optional: boolean; // Inject undefined when the key is not registered
+  fallback?: () => unknown; // Injected instead of undefined
+  deferred?: Deferred; // Inject a Lazy, Provider or Factory instead of the instance
+  allowCaptive?: boolean; // Exempt from captive dependency checks
+  source: DependencySource;
+}
+
+// Instance created by a container that has to be torn down on dispose
+interface Disposable {
+  registration: Registration;
+  instance: any;
+  dispose: Disposer;
 }
 
 // Check if a function is a constructor (class)
@@ -41,27 +589,129 @@ function isConstructor(func: any): func is Constructor {
   );
 }
 
-// Create an auto-resolving factory from a constructor
+// Check if a function is declared with `async`
+function isAsyncFunction(func: any): boolean {
+  return typeof func === 'function' && func.constructor?.name === 'AsyncFunction';
+}
+
+// Call the onInit() hook of an instance the container created, values are initialized by their owner
+function initialize(registration: Registration, instance: any): unknown {
+  if (registration.isValue || instance === null || typeof instance !== 'object' || typeof instance.onInit !== 'function') {
+    return undefined;
+  }
+  return instance.onInit();
+}
+
+// Factories not declared async may still return a promise, it must be awaited before it is injected
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') && typeof (value as any).then === 'function';
+}
+
+// Settle like the promise, or reject with message when it takes longer than timeout milliseconds
+function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, message: string): Promise<T> {
+  if (timeout === undefined) {
+    return promise;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ContainerError(message)), timeout);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+// Registrations that must exist before a registration is created, deferred dependencies are created later
+function getDirectDependencies(
+  registration: Registration,
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>,
+  includeDeferred = false
+): Registration[] {
+  return getPlanDependencies(getPlan(registration)).flatMap(([, edge]) => {
+    if (edge.deferred && !includeDeferred) {
+      return [];
+    }
+    if (edge.multi) {
+      return multiRegistry.get(edge.key) || [];
+    }
+    const dependency = registry.get(edge.key);
+    return dependency ? [dependency] : [];
+  });
+}
+// Dependencies before their dependents. Creation order is not enough, a lazy or provider dependency is created after
+// the instance holding it. Keys in between that hold nothing to dispose, like transients, are followed too
+function sortDisposables(
+  disposables: Disposable[],
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>
+): Disposable[] {
+  const tracked = new Map<Registration, Disposable[]>();
+  for (const disposable of disposables) {
+    tracked.set(disposable.registration, [...(tracked.get(disposable.registration) || []), disposable]);
+  }
+  const sorted: Disposable[] = [];
+  const visited = new Set<Registration>();
+  const visit = (registration: Registration) => {
+    if (visited.has(registration)) {
+      return;
+    }
+    visited.add(registration);
+    getDirectDependencies(registration, registry, multiRegistry, true).forEach(visit);
+    sorted.push(...(tracked.get(registration) || []));
+  };
+  disposables.forEach(({ registration }) => visit(registration));
+  return sorted;
+}
+
+// Find how an instance should be disposed, preferring the registration's disposer
+function getDisposer(registration: Registration, instance: any): Disposer | undefined {
+  if (registration.dispose) {
+    return registration.dispose;
+  }
+  if (registration.isValue || instance === null || typeof instance !== 'object') {
+    return undefined;
+  }
+  for (const method of [Symbol.asyncDispose, Symbol.dispose, 'dispose']) {
+    if (typeof instance[method] === 'function') {
+      return (target: any) => target[method]();
+    }
+  }
+  return undefined;
+}
+
+// Create an auto-resolving factory from a constructor.
+// Containers construct classes from the parameter names of their plan and never call it
 function createAutoFactory<T>(constructor: Constructor<T>): Factory<T> {
+  let paramNames: string[] | undefined; // Parsed on the first call
   return (deps: Record<string, any>) => {
-    const paramTypes = getParameterTypes(constructor);
-    const args = paramTypes.map((paramType, index) => {
-      // Get the parameter name from the constructor
-      const paramNames = getParameterNames(constructor);
-      const paramName = paramNames[index];
+    paramNames ??= getConstructorParameterNames(constructor);
+    return construct(constructor, paramNames, deps);
+  };
+}
 
-      if (paramName && paramName in deps) {
-        return deps[paramName];
-      }
+function construct<T>(constructor: Constructor<T>, paramNames: readonly string[], deps: Record<string, any>): T {
+  const args = paramNames.map((paramName, index) => {
+    if (paramName in deps) {
+      return deps[paramName];
+    }
 
-      // This shouldn't happen if dependencies are resolved correctly
-      throw new ContainerError(
-        `Cannot resolve parameter ${index} (${paramName || 'unknown'}) for ${constructor.name}`
-      );
-    });
+    // This shouldn't happen if dependencies are resolved correctly
+    throw new ContainerError(`Cannot resolve parameter ${index} (${paramName}) for ${constructor.name}`);
+  });
 
-    return new constructor(...args);
-  };
+  return new constructor(...args);
+}
+
+// Classes get their arguments in constructor order from the plan, factories take them by name
+function createInstance(registration: Registration, plan: ResolutionPlan, args: Record<string, any>): any {
+  const constructor = registration.originalConstructor;
+  return constructor ? construct(constructor, plan.parameters, args) : registration.factory(args);
+}
+
+// Parameter names of the constructor of a class registration, or of its factory
+function getFactoryParameterNames(registration: Registration): string[] {
+  return registration.originalConstructor
+    ? getConstructorParameterNames(registration.originalConstructor)
+    : getParameterNames(registration.factory);
 }
 
 // Get constructor parameter types using reflect-metadata
@@ -72,88 +722,332 @@ function getParameterTypes(target: any): any[] {
   return Reflect.getMetadata('design:paramtypes', target) || [];
 }
 
+// Get parameter metadata recorded by parameter decorators
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getParameterMetadata(target: Function): Map<number, ParameterMetadata> {
+  return Reflect.getOwnMetadata(PARAMETERS_METADATA, target) || new Map();
+}
+
+// Registration options recorded by @Injectable on the class itself, subclasses do not inherit them
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getInjectableMetadata(target: Function): InjectableOptions | undefined {
+  return Reflect.getOwnMetadata(INJECTABLE_METADATA, target);
+}
+
+// Constructor dependencies declared by @Injectable({ deps }) or else by a static inject property.
+// Standard decorators emit no design:paramtypes, this is how their classes declare dependencies.
+// Neither is inherited, a subclass with its own constructor would receive its base class' dependencies
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getDeclaredDependencies(target: Function): readonly DeclaredDependency[] {
+  const declared =
+    Reflect.getOwnMetadata(DEPENDENCIES_METADATA, target) ??
+    (Object.prototype.hasOwnProperty.call(target, 'inject') ? (target as any).inject : undefined);
+  return Array.isArray(declared) ? declared : [];
+}
+
+// Record parameter metadata for a parameter decorator
+function setParameterMetadata(target: any, parameterIndex: number, metadata: ParameterMetadata): void {
+  const parameters = new Map(getParameterMetadata(target));
+  parameters.set(parameterIndex, { ...parameters.get(parameterIndex), ...metadata });
+  Reflect.defineMetadata(PARAMETERS_METADATA, parameters, target);
+}
+
+// Get the text between the bracket at openIndex and its matching closing bracket
+function getBracketContent(str: string, openIndex: number): string {
+  let depth = 0;
+  for (let i = openIndex; i < str.length; i++) {
+    if ('([{'.includes(str[i])) depth++;
+    if (')]}'.includes(str[i])) depth--;
+    if (depth === 0) {
+      return str.slice(openIndex + 1, i);
+    }
+  }
+  return str.slice(openIndex + 1);
+}
+
+// Split on commas that are not nested in brackets, e.g. in default values
+function splitTopLevel(str: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of str) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(p => p !== '');
+}
+
+// Strip default values, type annotations and rest dots from a parameter or property
+function getBindingName(param: string): string {
+  return param.split('=')[0].split(':')[0].replace('...', '').trim();
+}
+
 // Get parameter names from function
 // eslint-disable-next-line @typescript-eslint/ban-types
 function getParameterNames(func: Function): string[] {
   const fnStr = func.toString().replace(/\/\*[\s\S]*?\*\//g, ''); // Remove block comments
-  const match = fnStr.match(/\(([^)]*)\)/);
-  if (!match) return [];
-
-  const paramStr = match[1].trim();
-
-  // Handle destructuring pattern like ({ x, y })
-  if (paramStr.startsWith('{') && paramStr.includes('}')) {
-    const destructureMatch = paramStr.match(/\{([^}]+)\}/);
-    if (destructureMatch) {
-      const props = destructureMatch[1].split(',').map(p => {
-        const cleaned = p.trim().split(':')[0].trim(); // Remove type annotations
-        return cleaned;
-      });
-      return props.filter(p => p && p !== '');
-    }
+
+  // Single parameter arrow function without parentheses
+  const arrowMatch = fnStr.match(/^(?:async\s+)?([\w$]+)\s*=>/);
+  if (arrowMatch) return [arrowMatch[1]];
+
+  // For classes only the constructor's parameter list is relevant
+  const start = fnStr.startsWith('class') ? fnStr.search(/\bconstructor\s*\(/) : 0;
+  if (start === -1) return [];
+  const openIndex = fnStr.indexOf('(', start);
+  if (openIndex === -1) return [];
+
+  const params = splitTopLevel(getBracketContent(fnStr, openIndex));
+
+  // Handle destructuring pattern like ({ x, y }), nested patterns only contribute their top-level property
+  if (params.length > 0 && params[0].startsWith('{')) {
+    return splitTopLevel(getBracketContent(params[0], 0)).map(getBindingName).filter(p => p !== '');
   }
 
-  const params = match[1].split(',').map(p => {
-    const cleaned = p.trim().split('=')[0].trim(); // Remove default values
-    const paramName = cleaned.split(':')[0].trim(); // Remove type annotations
-    return paramName;
-  });
+  return params.map(getBindingName).filter(p => p !== '');
+}
 
-  return params.filter(p => p && p !== '');
+// Get constructor parameter names, falling back to the index where the source cannot be parsed (e.g. minified code)
+function getConstructorParameterNames(constructor: Constructor): string[] {
+  const parsedNames = getParameterNames(constructor);
+  const decoratedIndexes = [...getParameterMetadata(constructor).keys()];
+  const count = Math.max(
+    parsedNames.length,
+    getParameterTypes(constructor).length,
+    getDeclaredDependencies(constructor).length,
+    ...decoratedIndexes.map(index => index + 1)
+  );
+  return Array.from({ length: count }, (_, index) => parsedNames[index] || `#${index}`);
 }
 
-// Get dependencies from registration
-function getDependencies(
-  registration: Registration,
-  localRegistry: Map<string, ServiceKey>
-): Map<string, ServiceKey> {
-  const deps = new Map<string, ServiceKey>();
+type DependencyMarker =
+  | Dependency
+  | MultiDependency
+  | LazyDependency
+  | ProviderDependency
+  | FactoryDependency
+  | ConfigValue;
+
+// Check if a kwarg is a dependency marker rather than a constant
+function isDependency(value: any): value is DependencyMarker {
+  return (
+    value instanceof Dependency ||
+    value instanceof MultiDependency ||
+    value instanceof LazyDependency ||
+    value instanceof ProviderDependency ||
+    value instanceof FactoryDependency ||
+    value instanceof ConfigValue
+  );
+}
+
+// Convert a dependency marker from kwargs to an edge
+function getDependencyEdge(value: DependencyMarker): DependencyEdge {
+  if (value instanceof ConfigValue) {
+    return { key: getConfigKey(value), multi: false, optional: false, source: 'kwargs' };
+  }
+  const edge: DependencyEdge = {
+    key: value instanceof MultiDependency ? value.key : qualifyKey(value.key, value.name),
+    multi: value instanceof MultiDependency,
+    optional: value instanceof Dependency && value.optional,
+    fallback: value instanceof Dependency ? value.fallback : undefined,
+    allowCaptive: !(value instanceof ProviderDependency || value instanceof FactoryDependency) && value.allowCaptive,
+    source: 'kwargs',
+  };
+  if (value instanceof LazyDependency) edge.deferred = 'lazy';
+  if (value instanceof ProviderDependency) edge.deferred = 'provider';
+  if (value instanceof FactoryDependency) edge.deferred = 'factory';
+  return edge;
+}
+
+const PRIMITIVE_TYPES = new Map<unknown, ConfigType>([
+  [String, 'string'],
+  [Number, 'number'],
+  [Boolean, 'boolean'],
+]);
+
+// Get dependencies from registration, paramNames are those of getFactoryParameterNames
+function getDependencies(registration: Registration, paramNames: readonly string[]): Map<string, DependencyEdge> {
+  const deps = new Map<string, DependencyEdge>();
 
   // Use original constructor for auto-resolution if available
   const targetForReflection = registration.originalConstructor || registration.factory;
   const paramTypes = getParameterTypes(targetForReflection);
-  const paramNames = getParameterNames(targetForReflection);
+  const parameterMetadata = getParameterMetadata(targetForReflection);
+  const declared = getDeclaredDependencies(targetForReflection);
 
   for (let i = 0; i < paramNames.length; i++) {
     const paramName = paramNames[i];
 
+    // Runtime arguments are not resolved from the container
+    if (registration.assisted?.includes(paramName)) {
+      continue;
+    }
+
     // Skip if already provided in kwargs
     if (paramName in registration.kwargs) {
       // Check if it's a Dependency wrapper
       const value = registration.kwargs[paramName];
-      if (value instanceof Dependency) {
-        deps.set(paramName, value.key);
+      if (isDependency(value)) {
+        deps.set(paramName, getDependencyEdge(value));
       }
       continue;
     }
 
-    // Get type from metadata
-    const paramType = paramTypes[i];
-    if (paramType) {
-      // Check if type is registered in localRegistry (for forward refs)
-      const registeredKey = localRegistry.get(paramType.name) || paramType;
-      deps.set(paramName, registeredKey);
-    } else {
-      // No type metadata available - try to resolve by parameter name
-      // This handles cases like ({ a }) => new B(a) without explicit kwargs
-      const registeredKey = localRegistry.get(paramName);
-      if (registeredKey) {
-        deps.set(paramName, registeredKey);
-      } else {
-        // Assume the parameter name itself is the key (e.g., string key)
-        deps.set(paramName, paramName);
-      }
-    }
+    // Metadata from @Inject, @InjectAll and @Optional takes precedence over reflection
+    const {
+      key,
+      name,
+      multi = false,
+      optional = false,
+      fallback,
+      deferred,
+      allowCaptive,
+      config,
+    } = parameterMetadata.get(i) || {};
+    if (key !== undefined) {
+      deps.set(paramName, {
+        key: qualifyKey(key, name),
+        multi,
+        optional,
+        fallback,
+        deferred,
+        allowCaptive,
+        source: 'decorator',
+      });
+      continue;
+    }
+    if (config) {
+      deps.set(paramName, { key: getConfigKey(config), multi: false, optional: false, source: 'decorator' });
+      continue;
+    }
+
+    // Declared dependencies take precedence over reflection, which standard decorators do not support
+    if (i < declared.length) {
+      const dependency = declared[i];
+      const edge = isDependency(dependency)
+        ? getDependencyEdge(dependency)
+        : { key: qualifyKey(dependency, name), multi: false, optional, fallback, allowCaptive };
+      deps.set(paramName, { ...edge, source: 'declared' });
+      continue;
+    }
+
+    // Get type from metadata, the reflected class itself is the key
+    // Interfaces are reflected as Object and primitives as their wrappers, neither is a usable key
+    const paramType = paramTypes[i];
+    if (paramType && paramType !== Object && !PRIMITIVE_TYPES.has(paramType)) {
+      deps.set(paramName, {
+        key: qualifyKey(paramType, name),
+        multi: false,
+        optional,
+        fallback,
+        allowCaptive,
+        source: 'reflection',
+      });
+    } else {
+      // No type metadata available - the parameter name is used as a string key
+      // This handles cases like ({ a }) => new B(a) without explicit kwargs
+      deps.set(paramName, {
+        key: qualifyKey(paramName, name),
+        multi: false,
+        optional,
+        fallback,
+        allowCaptive,
+        source: 'name',
+      });
+    }
+  }
+
+  // Dependencies on keys private to the registration's module
+  const { keyMap } = registration;
+  if (keyMap) {
+    for (const [paramName, edge] of deps) {
+      const key = keyMap.get(edge.key);
+      if (key !== undefined) {
+        deps.set(paramName, { ...edge, key });
+      }
+    }
   }
 
   return deps;
 }
 
+// Dependencies and constant arguments of a registration, compiled once and shared by every container
+interface ResolutionPlan {
+  readonly parameters: readonly string[]; // Every parameter of the factory or constructor, in order
+  readonly dependencies: PlannedDependencies; // In parameter order
+  readonly constants: Readonly<Record<string, any>>;
+  readonly target: Readonly<DecorationTarget>;
+  readonly decorations: readonly {
+    readonly decorate: Decorator;
+    readonly dependencies: PlannedDependencies;
+    readonly constants: Readonly<Record<string, any>>;
+  }[];
+}
+
+type PlannedDependencies = readonly (readonly [string, Readonly<DependencyEdge>])[];
+
+const plans = new WeakMap<Registration, ResolutionPlan>();
+
+function getPlan(registration: Registration): ResolutionPlan {
+  let plan = plans.get(registration);
+  if (!plan) {
+    const decorations = (registration.decorations || []).map(({ decorate, kwargs }) =>
+      Object.freeze({
+        decorate,
+        // Decorators only declare dependencies through kwargs
+        dependencies: freezeDependencies(
+          Object.entries(kwargs).flatMap(([paramName, value]) => {
+            if (!isDependency(value)) {
+              return [];
+            }
+            const edge = getDependencyEdge(value);
+            return [[paramName, { ...edge, key: registration.keyMap?.get(edge.key) ?? edge.key }] as const];
+          })
+        ),
+        constants: Object.freeze(resolveConstants(kwargs)),
+      })
+    );
+    const parameters = Object.freeze(getFactoryParameterNames(registration));
+    plan = Object.freeze({
+      parameters,
+      dependencies: freezeDependencies(getDependencies(registration, parameters)),
+      constants: Object.freeze(resolveConstants(registration.kwargs)),
+      target: Object.freeze(getDecorationTarget(registration)),
+      decorations: Object.freeze(decorations),
+    });
+    plans.set(registration, plan);
+  }
+  return plan;
+}
+
+function getDecorationTarget(registration: Registration): DecorationTarget {
+  const { key, lifetime } = registration;
+  return key instanceof QualifiedKey ? { key: key.key, name: key.name, lifetime } : { key, lifetime };
+}
+
+function freezeDependencies(dependencies: Iterable<readonly [string, DependencyEdge]>): PlannedDependencies {
+  return Object.freeze([...dependencies].map(([paramName, edge]) => Object.freeze([paramName, Object.freeze(edge)] as const)));
+}
+
+// Dependencies of the factory followed by those of the decorators
+function getPlanDependencies(plan: ResolutionPlan): PlannedDependencies {
+  return plan.decorations.length === 0
+    ? plan.dependencies
+    : [...plan.dependencies, ...plan.decorations.flatMap(decoration => decoration.dependencies)];
+}
+
 // Resolve constants from kwargs
 function resolveConstants(kwargs: Record<string, any>): Record<string, any> {
   const result: Record<string, any> = {};
   for (const [key, value] of Object.entries(kwargs)) {
-    if (!(value instanceof Dependency)) {
+    if (!isDependency(value)) {
       result[key] = value;
     }
   }
@@ -169,7 +1063,7 @@ function validateRegistration(
   const paramNames = getParameterNames(factory);
   for (const kwargName of Object.keys(kwargs)) {
     if (!paramNames.includes(kwargName)) {
-      throw new ContainerError(`No argument '${kwargName}' for factory for type ${String(key)}`);
+      throw new ContainerError(`No argument '${kwargName}' for factory for type ${getKeyName(key)}`);
     }
   }
 
@@ -177,192 +1071,1937 @@ function validateRegistration(
   // since you're not doing any dependency injection
   const kwargKeys = Object.keys(kwargs);
   if (kwargKeys.length > 1) {
-    const hasDependency = kwargKeys.some(k => kwargs[k] instanceof Dependency);
+    const hasDependency = kwargKeys.some(k => isDependency(kwargs[k]));
     if (!hasDependency) {
       throw new ContainerError(
-        `Multiple kwargs provided but none are Dependencies for type ${String(key)}. ` +
+        `Multiple kwargs provided but none are Dependencies for type ${getKeyName(key)}. ` +
         `If providing multiple parameters, at least one should be a Dependency.`
       );
     }
   }
 }
 
-// Normalize key to string for internal storage
-function normalizeKey(key: ServiceKey): string {
+// Pick the runtime arguments of an assisted registration, which cannot be created without them
+function getRuntimeArguments(registration: Registration, runtimeArgs?: Record<string, any>): Record<string, any> {
+  const { assisted = [] } = registration;
+  const missing = assisted.filter(name => !runtimeArgs || !(name in runtimeArgs));
+  if (missing.length > 0) {
+    throw new ContainerError(`Missing runtime arguments ${missing.join(', ')}, use resolveWith or a FactoryDependency`);
+  }
+  return Object.fromEntries(assisted.map(name => [name, runtimeArgs![name]]));
+}
+
+// Convert the legacy isSingleton flag to a lifetime
+function toLifetime(lifetime: boolean | Lifetime): Lifetime {
+  if (typeof lifetime === 'boolean') {
+    return lifetime ? 'singleton' : 'transient';
+  }
+  return lifetime;
+}
+
+// Readable key name for error messages
+function getKeyName(key: ServiceKey): string {
   if (typeof key === 'string') return key;
   if (typeof key === 'symbol') return key.toString();
+  if (key instanceof InjectionToken) return key.description;
   return key.name || String(key);
 }
 
-// Main Container class
-export class Container {
-  protected registry: Map<string, Registration>;
-  protected localRegistry: Map<string, ServiceKey>; // Maps type names to actual keys
-  protected resolved: Map<string, any>;
+function formatResolutionPath(path: ResolutionStep[]): string {
+  return path.map(getStepName).join(' -> ');
+}
+
+function getStepName(step: ResolutionStep): string {
+  return step.module ? `${step.name} (module ${step.module})` : step.name;
+}
+
+function getModuleSuffix(registration: Registration): string {
+  return registration.module ? ` by module ${registration.module}` : '';
+}
+
+// Name of a registration in errors, with the module it was installed from
+function getRegistrationName(registration: Registration): string {
+  return getStepName({ key: registration.key, name: getKeyName(registration.key), module: registration.module });
+}
+
+function getResolutionStep(registration: Registration, parameter?: string): ResolutionStep {
+  const step: ResolutionStep = { key: registration.key, name: getKeyName(registration.key), lifetime: registration.lifetime };
+  if (parameter !== undefined) {
+    step.parameter = parameter;
+  }
+  if (registration.module !== undefined) {
+    step.module = registration.module;
+  }
+  return step;
+}
+
+// Prepend the registration being created to an error raised while creating it,
+// `parameter` is the dependency that was being resolved when the error was raised
+function extendResolutionError(error: unknown, registration: Registration, parameter?: string): ResolutionError {
+  const step = getResolutionStep(registration);
+  if (!(error instanceof ResolutionError)) {
+    return new ResolutionError([step], error instanceof Error ? error.message : String(error), error);
+  }
+
+  const [first, ...rest] = error.path;
+  const path = [step, parameter === undefined ? first : { ...first, parameter }, ...rest];
+  if (error instanceof MissingDependencyError) {
+    return new MissingDependencyError(path, error.suggestions);
+  }
+  if (error instanceof CyclicDependencyError) {
+    return new CyclicDependencyError(path);
+  }
+  if (error instanceof AmbiguousDependencyError) {
+    return new AmbiguousDependencyError(path, error.names);
+  }
+  return new ResolutionError(path, error.reason, error.cause);
+}
+
+// Registered key names close to a missing one, for "did you mean" hints
+function suggestKeys(
+  missing: ServiceKey,
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>
+): string[] {
+  const name = getKeyName(missing).toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+
+  const candidates = new Map<string, number>();
+  for (const key of [...registry.keys(), ...multiRegistry.keys()]) {
+    if (key instanceof PrivateKey) {
+      continue;
+    }
+    const candidate = getKeyName(key);
+    const lower = candidate.toLowerCase();
+    const contains = Math.min(name.length, lower.length) >= 3 && (lower.includes(name) || name.includes(lower));
+    const distance = contains ? 0 : getEditDistance(name, lower);
+    if (key !== missing && distance <= maxDistance && !candidates.has(candidate)) {
+      candidates.set(candidate, distance);
+    }
+  }
+
+  return [...candidates.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, 3)
+    .map(([candidate]) => candidate);
+}
+
+// Register the only named registration of a key as its default, replacing defaults added before
+function addDefaultVariants(registry: Map<ServiceKey, Registration>): void {
+  const variants = new Map<ServiceKey, Set<Registration>>();
+  for (const [key, registration] of registry) {
+    if (registration.key instanceof QualifiedKey && registration.key.key === key) {
+      registry.delete(key);
+    }
+  }
+  // Aliases bound to a named registration store it under a second key
+  for (const registration of registry.values()) {
+    if (registration.key instanceof QualifiedKey) {
+      variants.set(registration.key.key, (variants.get(registration.key.key) || new Set()).add(registration));
+    }
+  }
+  for (const [key, registrations] of variants) {
+    if (registrations.size === 1 && !registry.has(key)) {
+      registry.set(key, [...registrations][0]);
+    }
+  }
+}
+
+// Move the alias registrations out of a registry, bindAliases stores their targets' registrations instead
+function takeAliases(registry: Map<ServiceKey, Registration>): Map<ServiceKey, Registration> {
+  const aliases = new Map<ServiceKey, Registration>();
+  for (const [key, registration] of registry) {
+    if (registration.alias) {
+      aliases.set(key, registration);
+      registry.delete(key);
+    }
+  }
+  return aliases;
+}
+
+// Register the registration of each alias' target under the alias, following aliases of aliases
+function bindAliases(
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>,
+  aliases: Map<ServiceKey, Registration>
+): void {
+  const getStep = (key: ServiceKey, registration?: Registration): ResolutionStep => {
+    const step: ResolutionStep = { key, name: getKeyName(key) };
+    if (registration?.module !== undefined) {
+      step.module = registration.module;
+    }
+    return step;
+  };
+
+  for (const [aliasKey, alias] of aliases) {
+    const path = [getStep(aliasKey, alias)];
+    let current = alias;
+    for (;;) {
+      const target = current.keyMap?.get(current.alias!.target) ?? current.alias!.target;
+      const next = aliases.get(target);
+      if (path.some(step => step.key === target)) {
+        throw new CyclicDependencyError([...path, getStep(target, next)]);
+      }
+      if (!next) {
+        const registration = registry.get(target);
+        if (!registration) {
+          throw createMissingError([...path, getStep(target)], registry, multiRegistry);
+        }
+        registry.set(aliasKey, registration);
+        break;
+      }
+      path.push(getStep(target, next));
+      current = next;
+    }
+  }
+}
+
+// Register the value of every ConfigValue the registrations depend on and not bound yet,
+// collecting every missing or invalid value before failing
+function bindConfig(
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>,
+  sources: ConfigSource[]
+): void {
+  const problems: string[] = [];
+  const invalid = new Set<ConfigKey>(); // Reported once, even when several registrations need the value
+  for (const registration of [...registry.values(), ...[...multiRegistry.values()].flat()]) {
+    for (const [, { key }] of getPlanDependencies(getPlan(registration))) {
+      if (!(key instanceof ConfigKey) || registry.has(key) || invalid.has(key)) {
+        continue;
+      }
+      try {
+        const value = readConfigValue(key.value, sources);
+        registry.set(key, { key, factory: () => value, lifetime: 'singleton', isAsync: false, kwargs: {} });
+      } catch (error) {
+        invalid.add(key);
+        problems.push(`Config value ${key.value.path} needed by ${getRegistrationName(registration)} ${(error as Error).message}`);
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+}
+
+// Read a value from the last source defining its path, throwing the problem with it
+function readConfigValue(config: ConfigValue, sources: ConfigSource[]): unknown {
+  const { path, options } = config;
+  const source = [...sources].reverse().find(candidate => candidate.get(path) !== undefined);
+  if (!source) {
+    if ('default' in options || options.optional) {
+      return options.default;
+    }
+    throw new ContainerError('is missing');
+  }
+
+  const raw = source.get(path);
+  let value: unknown;
+  try {
+    value = coerceConfigValue(raw, options.type);
+  } catch (error) {
+    throw new ContainerError(`is invalid in ${source.name}: ${(error as Error).message}`);
+  }
+  const problem = options.validate?.(value);
+  if (problem !== undefined) {
+    throw new ContainerError(`is invalid in ${source.name}: ${problem}`);
+  }
+  return value;
+}
+
+function coerceConfigValue(value: unknown, type?: ConfigType): unknown {
+  const text = typeof value === 'string' ? value.trim() : undefined;
+  switch (type) {
+    case 'number': {
+      const number = text ? Number(text) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) {
+        throw new ContainerError(`expected a number, got ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (text !== undefined && ['true', '1', 'yes', 'on'].includes(text.toLowerCase())) {
+        return true;
+      }
+      if (text !== undefined && ['false', '0', 'no', 'off'].includes(text.toLowerCase())) {
+        return false;
+      }
+      throw new ContainerError(`expected a boolean, got ${JSON.stringify(value)}`);
+    case 'string':
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      throw new ContainerError(`expected a string, got ${JSON.stringify(value)}`);
+    default:
+      return value;
+  }
+}
+
+// Error for a key that is not registered, or only registered under several names
+function createMissingError(
+  path: ResolutionStep[],
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>
+): ResolutionError {
+  const { key } = path[path.length - 1];
+  const names = [...registry.keys()]
+    .filter((candidate): candidate is QualifiedKey => candidate instanceof QualifiedKey && candidate.key === key)
+    .map(candidate => candidate.name);
+  if (names.length > 1) {
+    return new AmbiguousDependencyError(path, names);
+  }
+  return new MissingDependencyError(path, suggestKeys(key, registry, multiRegistry));
+}
+
+// Levenshtein distance
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Resolution being traced, passed down to the resolutions of its dependencies
+interface TraceFrame {
+  event: ResolutionEvent;
+  start: number;
+  created: boolean;
+}
+
+type ResolutionListener = (event: any) => void;
+
+// Listeners of a container, events are only built while one is attached
+class ResolutionEmitter {
+  private listeners = new Map<keyof ResolutionEvents, Set<ResolutionListener>>();
+  private count = 0;
+  private nextId = 1;
+
+  get active(): boolean {
+    return this.count > 0;
+  }
+
+  on<E extends keyof ResolutionEvents>(event: E, listener: (event: ResolutionEvents[E]) => void): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    // Wrapped so that the same function can be attached twice
+    const entry: ResolutionListener = event => listener(event);
+    listeners.add(entry);
+    this.count++;
+    return () => {
+      if (listeners!.delete(entry)) {
+        this.count--;
+      }
+    };
+  }
+
+  start(registration: Registration, parent?: TraceFrame): TraceFrame {
+    const event: ResolutionEvent = {
+      id: this.nextId++,
+      key: registration.key,
+      name: getRegistrationName(registration),
+      lifetime: registration.lifetime,
+      depth: parent ? parent.event.depth + 1 : 0,
+    };
+    if (parent) {
+      event.parentId = parent.event.id;
+    }
+    this.emit('resolve:start', event);
+    return { event, start: performance.now(), created: false };
+  }
+
+  // A key resolved directly that is not registered fails before anything is created
+  missing(key: ServiceKey, error: unknown): void {
+    const event: ResolutionEvent = { id: this.nextId++, key, name: getKeyName(key), depth: 0 };
+    this.emit('resolve:start', event);
+    this.emit('resolve:error', { ...event, duration: 0, error });
+  }
+
+  end(frame: TraceFrame): void {
+    const duration = performance.now() - frame.start;
+    this.emit('resolve:end', { ...frame.event, duration, cached: !frame.created });
+  }
+
+  error(frame: TraceFrame, error: unknown): void {
+    const duration = performance.now() - frame.start;
+    this.emit('resolve:error', { ...frame.event, duration, error });
+  }
+
+  private emit<E extends keyof ResolutionEvents>(event: E, payload: ResolutionEvents[E]): void {
+    for (const listener of this.listeners.get(event) || []) {
+      listener(payload);
+    }
+  }
+}
+
+// Deprecated aliases that were already reported
+const deprecationWarnings = new WeakSet<Registration>();
+
+// How a container is created besides its registrations, scopes take the settings of their root instead
+interface ContainerOptions {
+  scopeRoot?: Container; // Set for scopes only
+  configSources?: ConfigSource[];
+  aliases?: Map<ServiceKey, Registration>;
+  initTimeout?: number;
+  onCaptiveDependency?: (error: CaptiveDependencyError) => void;
+}
+
+// The container is unreachable once warming it up failed, the eager singletons it created are disposed right away
+function disposeAfterStartupError(container: Container, error: unknown): unknown {
+  if (error instanceof StartupError) {
+    error.disposal = container.dispose();
+    error.disposal.catch(() => undefined); // Awaited by the caller if at all
+  }
+  return error;
+}
+
+// Keys of the methods Container and ContainerBuilder call on each other, not exported so they stay internal
+const WARM_UP = Symbol('warmUp');
+const WARM_UP_ASYNC = Symbol('warmUpAsync');
+const COLLECT_REGISTRATIONS = Symbol('collectRegistrations');
+
+// Main Container class
+export class Container {
+  protected registry: Map<ServiceKey, Registration>;
+  protected multiRegistry: Map<ServiceKey, Registration[]>; // Multi-bindings in registration order
+  protected asyncRegistrations: Set<Registration>; // Registrations whose dependency graph contains an async factory
+  protected resolved: Map<Registration, any>;
+  protected pending: Map<Registration, Promise<any>>; // In-flight async singleton creations
+  protected disposables: Disposable[]; // In creation order, sorted by dependencies when disposing
+  protected disposal: Promise<void> | null; // Set by the first dispose(), later calls wait for the same teardown
+  protected scopeRoot: Container | null; // Root container owning the singletons, set for scopes only
+  protected parent: Container | null; // Container owning the inherited singletons, set for children only
+  protected inherited: Set<Registration>; // Singletons of the parent, created and cached by the parent
+  protected events: ResolutionEmitter; // Shared with the scopes of the container
+  protected configSources: ConfigSource[]; // Layered under the sources of child containers
+  protected aliases: Map<ServiceKey, Registration>; // Alias registrations, the registry holds their targets' registrations
+  protected initTimeout?: number; // Default for the async onInit() hooks of registrations without their own
+  protected onCaptiveDependency?: (error: CaptiveDependencyError) => void; // From the builder, checks children and overrides
+
+  constructor(
+    registry: Map<ServiceKey, Registration>,
+    multiRegistry: Map<ServiceKey, Registration[]> = new Map(),
+    asyncRegistrations: Set<Registration> = new Set(),
+    options: ContainerOptions = {}
+  ) {
+    const scopeRoot = options.scopeRoot ?? null;
+    this.registry = registry;
+    this.multiRegistry = multiRegistry;
+    this.asyncRegistrations = asyncRegistrations;
+    this.resolved = new Map();
+    this.pending = new Map();
+    this.disposables = [];
+    this.disposal = null;
+    this.scopeRoot = scopeRoot;
+    this.parent = null;
+    this.inherited = new Set();
+    this.events = scopeRoot ? scopeRoot.events : new ResolutionEmitter();
+    this.configSources = scopeRoot ? scopeRoot.configSources : options.configSources ?? [];
+    this.aliases = scopeRoot ? scopeRoot.aliases : options.aliases ?? new Map();
+    this.initTimeout = scopeRoot ? scopeRoot.initTimeout : options.initTimeout;
+    this.onCaptiveDependency = scopeRoot ? scopeRoot.onCaptiveDependency : options.onCaptiveDependency;
+  }
+
+  getRegisteredDeps(): Set<ServiceKey> {
+    const keys = new Set<ServiceKey>();
+    for (const reg of this.registry.values()) {
+      if (!(reg.key instanceof PrivateKey)) {
+        keys.add(reg.key);
+      }
+    }
+    for (const [reg] of this.multiRegistry.values()) {
+      if (!(reg.key instanceof PrivateKey)) {
+        keys.add(reg.key);
+      }
+    }
+    for (const key of this.aliases.keys()) {
+      if (!(key instanceof PrivateKey)) {
+        keys.add(key);
+      }
+    }
+    return keys;
+  }
+
+  // Check whether resolve would find a registration for the key, multi-bindings are not
+  has(key: ServiceKey, name?: string): boolean {
+    return this.registry.has(findQualifiedKey(key, name));
+  }
+
+  resolve<T>(key: ServiceKey<T>, name?: string): T {
+    this.assertNotDisposed();
+    return this.resolveRegistration(this.getRequestedRegistration(findQualifiedKey(key, name)));
+  }
+
+  // Resolve a key that may not be registered, errors of a registered key are thrown
+  tryResolve<T>(key: ServiceKey<T>, name?: string): T | undefined {
+    return this.has(key, name) ? this.resolve(key, name) : undefined;
+  }
+
+  resolveAll<T>(key: ServiceKey<T>): T[] {
+    this.assertNotDisposed();
+    return this.resolveMulti(key);
+  }
+
+  async resolveAsync<T>(key: ServiceKey<T>, name?: string): Promise<T> {
+    this.assertNotDisposed();
+    return this.resolveRegistrationAsync(this.getRequestedRegistration(findQualifiedKey(key, name)));
+  }
+
+  async tryResolveAsync<T>(key: ServiceKey<T>, name?: string): Promise<T | undefined> {
+    return this.has(key, name) ? this.resolveAsync(key, name) : undefined;
+  }
+
+  // Create an assisted registration, the container provides every parameter but the runtime arguments
+  resolveWith<T>(key: ServiceKey<T>, runtimeArgs: Record<string, any>, name?: string): T {
+    this.assertNotDisposed();
+    return this.resolveRegistration(this.getAssistedRegistration(findQualifiedKey(key, name)), undefined, runtimeArgs);
+  }
+
+  async resolveWithAsync<T>(key: ServiceKey<T>, runtimeArgs: Record<string, any>, name?: string): Promise<T> {
+    this.assertNotDisposed();
+    return this.resolveRegistrationAsync(this.getAssistedRegistration(findQualifiedKey(key, name)), undefined, runtimeArgs);
+  }
+
+  async resolveAllAsync<T>(key: ServiceKey<T>): Promise<T[]> {
+    this.assertNotDisposed();
+    return this.resolveMultiAsync(key);
+  }
+
+  // Listen to resolution events, returns a function removing the listener
+  on<E extends keyof ResolutionEvents>(event: E, listener: (event: ResolutionEvents[E]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  protected getRegistration(key: ServiceKey): Registration {
+    const registration = this.registry.get(key);
+    if (!registration) {
+      throw createMissingError([{ key, name: getKeyName(key) }], this.registry, this.multiRegistry);
+    }
+    const alias = this.aliases.get(key);
+    if (alias?.alias?.deprecated !== undefined && !deprecationWarnings.has(alias)) {
+      deprecationWarnings.add(alias);
+      // Reported like Node's own deprecations, --no-deprecation silences it and --throw-deprecation makes it fail
+      process.emitWarning(`${getRegistrationName(alias)} is deprecated: ${alias.alias.deprecated}`, 'DeprecationWarning');
+    }
+    return registration;
+  }
+
+  // Look up a key resolved directly, listeners are told when it is missing
+  protected getRequestedRegistration(key: ServiceKey): Registration {
+    try {
+      return this.getRegistration(key);
+    } catch (error) {
+      if (this.events.active) {
+        this.events.missing(key, error);
+      }
+      throw error;
+    }
+  }
+
+  protected getAssistedRegistration(key: ServiceKey): Registration {
+    const registration = this.getRequestedRegistration(key);
+    if (!registration.assisted) {
+      throw new ContainerError(`Type ${getRegistrationName(registration)} takes no runtime arguments, use resolve instead`);
+    }
+    return registration;
+  }
+
+  // Scopes and children report the overrides they resolve to the test container they come from
+  protected markOverrideResolved(override: symbol): void {
+    (this.scopeRoot ?? this.parent)?.markOverrideResolved(override);
+  }
+
+  // Resolve a registration, emitting resolution events when someone listens
+  protected resolveRegistration(
+    registration: Registration,
+    parentFrame?: TraceFrame,
+    runtimeArgs?: Record<string, any>
+  ): any {
+    if (!this.events.active) {
+      return this.getOrCreateInstance(registration, undefined, runtimeArgs);
+    }
+
+    const frame = this.events.start(registration, parentFrame);
+    try {
+      const result = this.getOrCreateInstance(registration, frame, runtimeArgs);
+      this.events.end(frame);
+      return result;
+    } catch (error) {
+      this.events.error(frame, error);
+      throw error;
+    }
+  }
+
+  protected async resolveRegistrationAsync(
+    registration: Registration,
+    parentFrame?: TraceFrame,
+    runtimeArgs?: Record<string, any>
+  ): Promise<any> {
+    if (!this.events.active) {
+      return this.getOrCreateInstanceAsync(registration, undefined, runtimeArgs);
+    }
+
+    const frame = this.events.start(registration, parentFrame);
+    try {
+      const result = await this.getOrCreateInstanceAsync(registration, frame, runtimeArgs);
+      this.events.end(frame);
+      return result;
+    } catch (error) {
+      this.events.error(frame, error);
+      throw error;
+    }
+  }
+
+  // Assisted registrations are transient, runtime arguments never reach a cached instance
+  protected getOrCreateInstance(registration: Registration, frame?: TraceFrame, runtimeArgs?: Record<string, any>): any {
+    if (registration.override) {
+      this.markOverrideResolved(registration.override);
+    }
+
+    // Check if already resolved singleton or scoped instance
+    if (this.resolved.has(registration)) {
+      return this.resolved.get(registration);
+    }
+
+    // The owner of a singleton may be disposed before its scopes and children, it must not create again
+    if (registration.lifetime === 'singleton' && this.scopeRoot) {
+      this.scopeRoot.assertNotDisposed();
+      return this.scopeRoot.getOrCreateInstance(registration, frame);
+    }
+    // The parent has its own listeners and ids, the inherited singleton starts a root resolution there
+    if (this.parent && this.inherited.has(registration)) {
+      this.parent.assertNotDisposed();
+      return this.parent.resolveRegistration(registration);
+    }
+
+    const plan = getPlan(registration);
+    const args: Record<string, any> = { ...plan.constants };
+    let parameter: string | undefined;
+    let result: any;
+    try {
+      // A singleton or scoped instance being created by resolveAsync cannot be awaited here, nor created twice
+      if (this.pending.has(registration)) {
+        throw new ContainerError(
+          `Type ${getKeyName(registration.key)} is being created by resolveAsync, await it instead of using resolve`
+        );
+      }
+      this.assertLifetimeAllowed(registration);
+      Object.assign(args, getRuntimeArguments(registration, runtimeArgs));
+
+      if (this.asyncRegistrations.has(registration)) {
+        throw new ContainerError(
+          `Type ${getKeyName(registration.key)} depends on an async factory, use resolveAsync instead of resolve`
+        );
+      }
+
+      // Resolve dependencies
+      for (const [paramName, edge] of plan.dependencies) {
+        parameter = paramName;
+        args[paramName] = this.resolveEdge(edge, frame);
+      }
+      parameter = undefined;
+
+      // Create instance, the undecorated instance is the one disposed
+      if (frame) {
+        frame.created = true;
+      }
+      result = createInstance(registration, plan, args);
+      if (!registration.isValue && isThenable(result)) {
+        result.then(undefined, () => undefined); // Never awaited here, its failure would go unhandled
+        throw new ContainerError(`Factory of ${getKeyName(registration.key)} returned a promise, use resolveAsync instead of resolve`);
+      }
+      this.trackDisposable(registration, result);
+
+      const initialized = initialize(registration, result);
+      if (initialized instanceof Promise) {
+        initialized.catch(() => undefined); // The hook cannot be awaited here, its failure would go unhandled
+        throw new ContainerError(`onInit() of ${getKeyName(registration.key)} is async, use resolveAsync instead of resolve`);
+      }
+
+      // Decorators wrap the instance before it is cached
+      for (const decoration of plan.decorations) {
+        const deps: Record<string, any> = { ...decoration.constants };
+        for (const [paramName, edge] of decoration.dependencies) {
+          parameter = paramName;
+          deps[paramName] = this.resolveEdge(edge, frame);
+        }
+        parameter = undefined;
+        result = decoration.decorate(result, { ...plan.target, deps });
+      }
+    } catch (error) {
+      throw extendResolutionError(error, registration, parameter);
+    }
+
+    // Cache if singleton or scoped
+    if (registration.lifetime !== 'transient') {
+      this.resolved.set(registration, result);
+    }
+
+    return result;
+  }
+
+  protected async getOrCreateInstanceAsync(
+    registration: Registration,
+    frame?: TraceFrame,
+    runtimeArgs?: Record<string, any>
+  ): Promise<any> {
+    if (registration.override) {
+      this.markOverrideResolved(registration.override);
+    }
+
+    // Check if already resolved singleton or scoped instance
+    if (this.resolved.has(registration)) {
+      return this.resolved.get(registration);
+    }
+
+    // Share an in-flight singleton creation with concurrent callers
+    const pending = this.pending.get(registration);
+    if (pending) {
+      return pending;
+    }
+
+    if (registration.lifetime === 'singleton' && this.scopeRoot) {
+      this.scopeRoot.assertNotDisposed();
+      return this.scopeRoot.getOrCreateInstanceAsync(registration, frame);
+    }
+    if (this.parent && this.inherited.has(registration)) {
+      this.parent.assertNotDisposed();
+      return this.parent.resolveRegistrationAsync(registration);
+    }
+    let runtime: Record<string, any>;
+    try {
+      this.assertLifetimeAllowed(registration);
+      runtime = getRuntimeArguments(registration, runtimeArgs);
+    } catch (error) {
+      throw extendResolutionError(error, registration);
+    }
+
+    const create = async (): Promise<any> => {
+      const plan = getPlan(registration);
+      const args = {
+        ...(await this.resolveArgumentsAsync(registration, plan.dependencies, plan.constants, frame)),
+        ...runtime,
+      };
+
+      let result: any;
+      if (frame) {
+        frame.created = true;
+      }
+      try {
+        result = await createInstance(registration, plan, args);
+      } catch (error) {
+        throw extendResolutionError(error, registration);
+      }
+      this.trackDisposable(registration, result);
+
+      const timeout = registration.initTimeout ?? this.initTimeout;
+      try {
+        await withTimeout(
+          Promise.resolve(initialize(registration, result)),
+          timeout,
+          `onInit() of ${getKeyName(registration.key)} did not complete within ${timeout}ms`
+        );
+      } catch (error) {
+        throw extendResolutionError(error, registration);
+      }
+
+      for (const decoration of plan.decorations) {
+        const deps = await this.resolveArgumentsAsync(
+          registration,
+          decoration.dependencies,
+          decoration.constants,
+          frame
+        );
+        try {
+          result = decoration.decorate(result, { ...plan.target, deps });
+        } catch (error) {
+          throw extendResolutionError(error, registration);
+        }
+      }
+      return result;
+    };
+
+    if (registration.lifetime === 'transient') {
+      return create();
+    }
+
+    // Cache the settled value; a rejected creation is not cached and may be retried
+    const creation = create()
+      .then(result => {
+        this.resolved.set(registration, result);
+        return result;
+      })
+      .finally(() => {
+        this.pending.delete(registration);
+      });
+    this.pending.set(registration, creation);
+
+    return creation;
+  }
+
+  // Resolve independent dependencies in parallel
+  protected async resolveArgumentsAsync(
+    registration: Registration,
+    dependencies: PlannedDependencies,
+    constants: Record<string, any>,
+    frame?: TraceFrame
+  ): Promise<Record<string, any>> {
+    const args: Record<string, any> = { ...constants };
+    const values = await Promise.all(
+      dependencies.map(([paramName, edge]) =>
+        this.resolveEdgeAsync(edge, frame).catch(error => {
+          throw extendResolutionError(error, registration, paramName);
+        })
+      )
+    );
+    dependencies.forEach(([paramName], index) => {
+      args[paramName] = values[index];
+    });
+    return args;
+  }
+
+  // Resolve a dependency of the registration being created in frame
+  protected resolveEdge(edge: DependencyEdge, frame?: TraceFrame): any {
+    if (edge.deferred === 'factory') {
+      return (runtimeArgs: Record<string, any>) => {
+        this.assertNotDisposed();
+        return this.resolveRegistration(this.getRegistration(edge.key), undefined, runtimeArgs);
+      };
+    }
+    if (edge.deferred) {
+      // Resolved after the dependent was created, outside of its frame
+      const provider = () => {
+        this.assertNotDisposed();
+        return this.resolveEdge({ ...edge, deferred: undefined });
+      };
+      return edge.deferred === 'lazy' ? new Lazy(provider) : provider;
+    }
+    if (edge.multi) {
+      return this.resolveMulti(edge.key, frame);
+    }
+    if (edge.optional && !this.registry.has(edge.key)) {
+      return edge.fallback?.();
+    }
+    return this.resolveRegistration(this.getRegistration(edge.key), frame);
+  }
+
+  protected async resolveEdgeAsync(edge: DependencyEdge, frame?: TraceFrame): Promise<any> {
+    if (edge.deferred) {
+      return this.resolveEdge(edge);
+    }
+    if (edge.multi) {
+      return this.resolveMultiAsync(edge.key, frame);
+    }
+    if (edge.optional && !this.registry.has(edge.key)) {
+      return edge.fallback?.();
+    }
+    return this.resolveRegistrationAsync(this.getRegistration(edge.key), frame);
+  }
+
+  protected resolveMulti(key: ServiceKey, frame?: TraceFrame): any[] {
+    const registrations = this.multiRegistry.get(key) || [];
+    return registrations.map(registration => this.resolveRegistration(registration, frame));
+  }
+
+  protected resolveMultiAsync(key: ServiceKey, frame?: TraceFrame): Promise<any[]> {
+    const registrations = this.multiRegistry.get(key) || [];
+    return Promise.all(registrations.map(registration => this.resolveRegistrationAsync(registration, frame)));
+  }
+
+  // Tear down every instance this container created, dependents before their dependencies
+  dispose(): Promise<void> {
+    if (!this.disposal) {
+      this.disposal = this.disposeInstances();
+    }
+    return this.disposal;
+  }
+
+  private async disposeInstances(): Promise<void> {
+    // Instances still being created are disposed with the rest once created
+    await Promise.allSettled(this.pending.values());
+
+    const errors: unknown[] = [];
+    const failedKeys: string[] = [];
+    const disposables = sortDisposables(this.disposables, this.registry, this.multiRegistry);
+    for (const { registration, instance, dispose } of disposables.reverse()) {
+      try {
+        await dispose(instance);
+      } catch (error) {
+        errors.push(error);
+        failedKeys.push(getKeyName(registration.key));
+      }
+    }
+
+    this.disposables = [];
+    this.resolved.clear();
+
+    if (errors.length > 0) {
+      throw new AggregateContainerError(`Failed to dispose ${failedKeys.join(', ')}`, errors);
+    }
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
+
+  protected assertNotDisposed(): void {
+    if (this.disposal) {
+      throw new ContainerError('Container is disposed');
+    }
+  }
+
+  protected assertLifetimeAllowed(registration: Registration): void {
+    if (registration.lifetime === 'scoped' && !this.scopeRoot) {
+      throw new ContainerError(
+        `Type ${getKeyName(registration.key)} is scoped and cannot be resolved from the root container, use createScope()`
+      );
+    }
+  }
+
+  // Create the eager singletons, or every singleton, dependencies first
+  [WARM_UP](all: boolean, asyncHint = 'use buildAsync instead of build'): void {
+    const order = this.getEagerOrder(all);
+    const asyncEager = order.filter(
+      registration => this.isEager(registration, all) && this.asyncRegistrations.has(registration)
+    );
+    if (asyncEager.length > 0) {
+      throw new ContainerError(
+        `Eager singletons ${asyncEager.map(getRegistrationName).join(', ')} depend on async factories, ${asyncHint}`
+      );
+    }
+
+    const failed = new Set<Registration>();
+    const errors: ResolutionError[] = [];
+    for (const registration of order) {
+      if (this.shouldCreateEager(registration, all, failed)) {
+        try {
+          this.resolveRegistration(registration);
+        } catch (error) {
+          failed.add(registration);
+          errors.push(error instanceof ResolutionError ? error : extendResolutionError(error, registration));
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new StartupError(errors);
+    }
+  }
+
+  async [WARM_UP_ASYNC](all: boolean): Promise<void> {
+    const failed = new Set<Registration>();
+    const errors: ResolutionError[] = [];
+    for (const registration of this.getEagerOrder(all)) {
+      if (this.shouldCreateEager(registration, all, failed)) {
+        try {
+          await this.resolveRegistrationAsync(registration);
+        } catch (error) {
+          failed.add(registration);
+          errors.push(error instanceof ResolutionError ? error : extendResolutionError(error, registration));
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new StartupError(errors);
+    }
+  }
+
+  // Inherited singletons were created eagerly by the parent
+  private isEager(registration: Registration, all: boolean): boolean {
+    return registration.lifetime === 'singleton' && (all || registration.eager === true) && !this.inherited.has(registration);
+  }
+
+  // Every eager registration after its direct dependencies
+  private getEagerOrder(all: boolean): Registration[] {
+    const order: Registration[] = [];
+    const visited = new Set<Registration>();
+    const visit = (registration: Registration) => {
+      if (visited.has(registration)) {
+        return;
+      }
+      visited.add(registration);
+      getDirectDependencies(registration, this.registry, this.multiRegistry).forEach(visit);
+      order.push(registration);
+    };
+    for (const registration of [...this.registry.values(), ...[...this.multiRegistry.values()].flat()]) {
+      if (this.isEager(registration, all)) {
+        visit(registration);
+      }
+    }
+    return order;
+  }
+
+  // A registration depending on a failed one is not attempted, its failure is already reported
+  private shouldCreateEager(registration: Registration, all: boolean, failed: Set<Registration>): boolean {
+    if (getDirectDependencies(registration, this.registry, this.multiRegistry).some(dep => failed.has(dep))) {
+      failed.add(registration);
+      return false;
+    }
+    return this.isEager(registration, all);
+  }
+
+  protected trackDisposable(registration: Registration, instance: any): void {
+    // The container registers itself and must not dispose itself recursively.
+    // Transients belong to their caller, tracking them would keep every created instance alive
+    if (instance instanceof Container || registration.lifetime === 'transient') {
+      return;
+    }
+    const dispose = getDisposer(registration, instance);
+    if (dispose) {
+      this.disposables.push({ registration, instance, dispose });
+    }
+  }
+
+  // Create a child resolver caching scoped instances, while singletons stay shared with the root container
+  createScope(): Container {
+    const root = this.scopeRoot || this;
+    const registryCopy = new Map(root.registry);
+
+    const scope = new Container(registryCopy, root.multiRegistry, root.asyncRegistrations, { scopeRoot: root });
+
+    // Resolve the scope itself as Container inside the scope
+    registryCopy.set(Container, {
+      key: Container,
+      factory: () => scope,
+      lifetime: 'scoped',
+      isAsync: false,
+      kwargs: {},
+    });
+
+    return scope;
+  }
+
+  // Create a container adding or shadowing registrations and falling back to this one for other keys.
+  // Singletons registered here are shared with the child and keep their dependencies from here
+  createChild(configure: (builder: ContainerBuilder) => void): Container {
+    this.assertNotDisposed();
+    const parent = this.scopeRoot || this;
+    const builder = new ContainerBuilder();
+    configure(builder);
+
+    const registry = new Map(parent.registry);
+    const multiRegistry = new Map([...parent.multiRegistry].map(([key, registrations]) => [key, [...registrations]]));
+    const local = builder[COLLECT_REGISTRATIONS]();
+    const aliases = new Map(parent.aliases);
+    for (const [key, registration] of local.registry) {
+      registry.set(key, registration);
+      multiRegistry.delete(key);
+      aliases.delete(key);
+    }
+    for (const [key, registrations] of local.multiRegistry) {
+      registry.delete(key);
+      multiRegistry.set(key, [...(multiRegistry.get(key) || []), ...registrations]);
+      aliases.delete(key);
+    }
+    addDefaultVariants(registry);
+    // Aliases of the parent follow the targets shadowed by the child
+    for (const [key, alias] of takeAliases(registry)) {
+      aliases.set(key, alias);
+    }
+    bindAliases(registry, multiRegistry, aliases);
+
+    // Config sources of the child take precedence, every value is read again when it has some
+    const configSources = [...parent.configSources, ...local.configSources];
+    if (local.configSources.length > 0) {
+      for (const key of registry.keys()) {
+        if (key instanceof ConfigKey) {
+          registry.delete(key);
+        }
+      }
+    }
+    bindConfig(registry, multiRegistry, configSources);
+
+    const child = new Container(registry, multiRegistry, new Set(), {
+      configSources,
+      aliases,
+      initTimeout: parent.initTimeout,
+      onCaptiveDependency: parent.onCaptiveDependency,
+    });
+    child.parent = parent;
+    for (const registration of [...parent.registry.values(), ...[...parent.multiRegistry.values()].flat()]) {
+      if (registration.lifetime === 'singleton') {
+        child.inherited.add(registration);
+      }
+    }
+
+    // Resolve the child itself as Container inside the child
+    registry.set(Container, {
+      key: Container,
+      factory: () => child,
+      lifetime: 'singleton',
+      isAsync: false,
+      kwargs: {},
+    });
+
+    // Inherited singletons were validated by the parent, only what the child creates is checked again
+    const inheritedAsync = [...parent.asyncRegistrations].filter(registration => child.inherited.has(registration));
+    for (const registration of checkResolvable(registry, multiRegistry, {
+      validated: child.inherited,
+      validatedAsync: new Set(inheritedAsync),
+      onCaptiveDependency: child.onCaptiveDependency,
+    })) {
+      child.asyncRegistrations.add(registration);
+    }
+
+    try {
+      child[WARM_UP](false, 'createChild cannot await them, register them without eager');
+    } catch (error) {
+      throw disposeAfterStartupError(child, error);
+    }
+    return child;
+  }
+
+  exportGraph(options: ExportGraphOptions): string {
+    let roots = [...this.registry.values(), ...[...this.multiRegistry.values()].flat()];
+    if (options.root !== undefined) {
+      roots = this.multiRegistry.get(options.root) || [this.getRegistration(options.root)];
+    }
+
+    const graph = buildDependencyGraph(roots, this.registry, this.multiRegistry);
+    switch (options.format) {
+      case 'dot':
+        return formatDot(graph);
+      case 'mermaid':
+        return formatMermaid(graph);
+      case 'json':
+        return JSON.stringify(graph, null, 2);
+    }
+  }
+
+  createTestContainer(): TestContainer {
+    const registryCopy = new Map(this.registry);
+
+    const testContainer = new TestContainer(registryCopy, this.multiRegistry, new Set(this.asyncRegistrations), {
+      configSources: this.configSources,
+      aliases: this.aliases,
+      initTimeout: this.initTimeout,
+      onCaptiveDependency: this.onCaptiveDependency,
+    });
+
+    // Register the test container itself
+    registryCopy.set(Container, {
+      key: Container,
+      factory: () => testContainer,
+      lifetime: 'singleton',
+      isAsync: false,
+      kwargs: {},
+    });
+
+    return testContainer;
+  }
+}
+
+// Collect the graph reachable from roots, numbering nodes in visiting order
+function buildDependencyGraph(
+  roots: Registration[],
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>
+): DependencyGraph {
+  const graph: DependencyGraph = { nodes: [], edges: [] };
+  const ids = new Map<Registration, string>();
+
+  const visit = (registration: Registration): string => {
+    const visitedId = ids.get(registration);
+    if (visitedId) {
+      return visitedId;
+    }
+
+    const id = `n${ids.size}`;
+    ids.set(registration, id);
+
+    // Multi-bindings share a key and are told apart by their index
+    let name = getKeyName(registration.key);
+    const providers = multiRegistry.get(registration.key);
+    if (providers) {
+      name += `[${providers.indexOf(registration)}]`;
+    }
+    graph.nodes.push({ id, name, lifetime: registration.lifetime });
+
+    for (const [parameter, edge] of getPlanDependencies(getPlan(registration))) {
+      let depRegistrations = multiRegistry.get(edge.key) || [];
+      if (!edge.multi) {
+        // Missing optional dependencies have no node
+        const depRegistration = registry.get(edge.key);
+        depRegistrations = depRegistration ? [depRegistration] : [];
+      }
+      for (const dep of depRegistrations) {
+        graph.edges.push({
+          from: id,
+          to: visit(dep),
+          parameter,
+          source: edge.source,
+          multi: edge.multi,
+          deferred: edge.deferred,
+        });
+      }
+    }
+
+    return id;
+  };
+
+  roots.forEach(visit);
+  return graph;
+}
+
+// Render a dependency graph in Graphviz DOT format, deferred edges are dashed
+function formatDot(graph: DependencyGraph): string {
+  const escape = (label: string) => label.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const lines = ['digraph Dependencies {'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${node.id} [label="${escape(node.name)}\\n(${node.lifetime})"];`);
+  }
+  for (const edge of graph.edges) {
+    const style = edge.deferred ? ', style=dashed' : '';
+    lines.push(`  ${edge.from} -> ${edge.to} [label="${escape(edge.parameter)} (${edge.source})"${style}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Render a dependency graph as a Mermaid flowchart, deferred edges are dotted
+function formatMermaid(graph: DependencyGraph): string {
+  const escape = (label: string) => label.replace(/"/g, '#quot;');
+  const lines = ['graph TD'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${node.id}["${escape(node.name)} (${node.lifetime})"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.deferred ? '-.->' : '-->';
+    lines.push(`  ${edge.from} ${arrow}|"${escape(edge.parameter)} (${edge.source})"| ${edge.to}`);
+  }
+  return lines.join('\n');
+}
+
+// Validate that every registration is resolvable and return the ones whose graph contains an async factory
+function checkResolvable(
+  registry: Map<ServiceKey, Registration>,
+  multiRegistry: Map<ServiceKey, Registration[]>,
+  options: {
+    validated?: Set<Registration>; // Registrations checked before, with validatedAsync among them
+    validatedAsync?: Set<Registration>;
+    onCaptiveDependency?: (error: CaptiveDependencyError) => void; // Captive dependencies are not checked without it
+  } = {}
+): Set<Registration> {
+  const state: ResolutionCheck = {
+    resolved: new Set(options.validated),
+    asyncRegistrations: new Set(options.validatedAsync),
+    registry,
+    multiRegistry,
+    onCaptiveDependency: options.onCaptiveDependency,
+  };
+
+  const registrations = [...registry.values(), ...[...multiRegistry.values()].flat()];
+  for (const registration of registrations) {
+    checkResolution(registration, undefined, new Map(), state);
+  }
+
+  return state.asyncRegistrations;
+}
+
+function getCaptiveDependencyHandler(
+  mode: CaptiveDependencyMode
+): ((error: CaptiveDependencyError) => void) | undefined {
+  if (mode === 'ignore') {
+    return undefined;
+  }
+  if (mode === 'error') {
+    return error => {
+      throw error;
+    };
+  }
+  return mode;
+}
+
+// State shared by the checkResolution walks of one checkResolvable call
+interface ResolutionCheck {
+  resolved: Set<Registration>;
+  asyncRegistrations: Set<Registration>;
+  registry: Map<ServiceKey, Registration>;
+  multiRegistry: Map<ServiceKey, Registration[]>;
+  onCaptiveDependency?: (error: CaptiveDependencyError) => void;
+}
 
-  constructor(
-    registry: Map<string, Registration>,
-    localRegistry: Map<string, ServiceKey>
-  ) {
-    this.registry = registry;
-    this.localRegistry = localRegistry;
-    this.resolved = new Map();
+function checkResolution(
+  registration: Registration,
+  parameter: string | undefined, // Parameter through which the registration was reached
+  resolving: Map<Registration, ResolutionStep>, // Current path, in insertion order
+  state: ResolutionCheck
+): void {
+  const { resolved, asyncRegistrations, registry, multiRegistry } = state;
+  if (resolved.has(registration)) {
+    return;
   }
 
-  getRegisteredDeps(): Set<ServiceKey> {
-    const keys = new Set<ServiceKey>();
-    for (const reg of this.registry.values()) {
-      keys.add(reg.key);
-    }
-    return keys;
+  const step = getResolutionStep(registration, parameter);
+  if (resolving.has(registration)) {
+    throw new CyclicDependencyError([...resolving.values(), step]);
   }
 
-  resolve<T>(key: ServiceKey<T>): T {
-    const normalizedKey = normalizeKey(key);
+  resolving.set(registration, step);
 
-    // Check if already resolved singleton
-    if (this.resolved.has(normalizedKey)) {
-      return this.resolved.get(normalizedKey);
-    }
+  if (registration.isAsync) {
+    asyncRegistrations.add(registration);
+  }
 
-    // Get registration
-    const registration = this.registry.get(normalizedKey);
-    if (!registration) {
-      throw new ContainerError(`No dependency of type ${String(key)}`);
+  for (const [paramName, edge] of getPlanDependencies(getPlan(registration))) {
+    let depRegistrations: Registration[];
+    if (edge.multi) {
+      depRegistrations = multiRegistry.get(edge.key) || [];
+    } else {
+      const depRegistration = registry.get(edge.key);
+      if (!depRegistration) {
+        const error = createMissingError(
+          [...resolving.values(), { key: edge.key, name: getKeyName(edge.key), parameter: paramName }],
+          registry,
+          multiRegistry
+        );
+        if (edge.optional && !(error instanceof AmbiguousDependencyError)) {
+          continue;
+        }
+        throw error;
+      }
+      depRegistrations = [depRegistration];
     }
 
-    // Resolve dependencies
-    const args: Record<string, any> = resolveConstants(registration.kwargs);
-    const deps = getDependencies(registration, this.localRegistry);
-
-    for (const [paramName, depKey] of deps.entries()) {
-      args[paramName] = this.resolve(depKey);
+    // Runtime arguments can only be passed through a factory
+    for (const depRegistration of depRegistrations) {
+      if ((depRegistration.assisted !== undefined) !== (edge.deferred === 'factory')) {
+        const reason = depRegistration.assisted
+          ? `Type ${getRegistrationName(depRegistration)} needs runtime arguments ${depRegistration.assisted.join(', ')}, inject a FactoryDependency`
+          : `Type ${getRegistrationName(depRegistration)} takes no runtime arguments, inject a ProviderDependency`;
+        throw new ResolutionError([...resolving.values(), getResolutionStep(depRegistration, paramName)], reason);
+      }
     }
 
-    // Create instance
-    const result = registration.factory(args);
+    // A singleton keeps the instances it was created with, only providers and factories create again on each call
+    const { onCaptiveDependency } = state;
+    const createsOnCall = edge.deferred === 'provider' || edge.deferred === 'factory';
+    if (onCaptiveDependency && registration.lifetime === 'singleton' && !createsOnCall && !edge.allowCaptive) {
+      for (const depRegistration of depRegistrations) {
+        if (depRegistration.lifetime !== 'singleton') {
+          onCaptiveDependency(
+            new CaptiveDependencyError([...resolving.values(), getResolutionStep(depRegistration, paramName)])
+          );
+        }
+      }
+    }
 
-    // Cache if singleton
-    if (registration.isSingleton) {
-      this.resolved.set(normalizedKey, result);
+    // A deferred edge is resolved after construction and cannot form a cycle,
+    // its targets are validated as roots by checkResolvable
+    if (edge.deferred) {
+      continue;
     }
 
-    return result;
+    for (const depRegistration of depRegistrations) {
+      checkResolution(depRegistration, paramName, resolving, state);
+      if (asyncRegistrations.has(depRegistration)) {
+        asyncRegistrations.add(registration);
+      }
+    }
   }
 
-  createTestContainer(): TestContainer {
-    const registryCopy = new Map(this.registry);
-    const localRegistryCopy = new Map(this.localRegistry);
-
-    const testContainer = new TestContainer(registryCopy, localRegistryCopy);
+  resolving.delete(registration);
+  resolved.add(registration);
+}
 
-    // Register the test container itself
-    registryCopy.set(normalizeKey(Container), {
-      key: Container,
-      factory: () => testContainer,
-      isSingleton: true,
-      kwargs: {},
-    });
-    localRegistryCopy.set('Container', Container);
+// Mock function without a test framework, calling it returns undefined until given an implementation
+function createMockFunction(name: string): MockFunction {
+  let implementation: (...args: any[]) => any = () => undefined;
+  const state: MockFunction['mock'] = { calls: [], results: [], contexts: [] };
+  const mock = function (this: unknown, ...args: any[]) {
+    state.calls.push(args);
+    state.contexts.push(this);
+    state.lastCall = args;
+    try {
+      const value = implementation.apply(this, args);
+      state.results.push({ type: 'return', value });
+      return value;
+    } catch (error) {
+      state.results.push({ type: 'throw', value: error });
+      throw error;
+    }
+  } as MockFunction;
+
+  return Object.assign(mock, {
+    _isMockFunction: true as const,
+    mock: state,
+    getMockName: () => name,
+    mockImplementation: (next: (...args: any[]) => any) => {
+      implementation = next;
+      return mock;
+    },
+    mockReturnValue: (value: unknown) => mock.mockImplementation(() => value),
+    mockResolvedValue: (value: unknown) => mock.mockImplementation(() => Promise.resolve(value)),
+    mockRejectedValue: (error: unknown) => mock.mockImplementation(() => Promise.reject(error)),
+    mockClear: () => {
+      state.calls.length = 0;
+      state.results.length = 0;
+      state.contexts.length = 0;
+      state.lastCall = undefined;
+      return mock;
+    },
+  });
+}
 
-    return testContainer;
+// Object inheriting from the class with every method of its prototype chain replaced by a mock
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createAutoMock(target: Function, createMock: (name: string) => unknown): any {
+  const instance = Object.create(target.prototype);
+  for (let prototype = target.prototype; prototype && prototype !== Object.prototype; ) {
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      const { value } = Object.getOwnPropertyDescriptor(prototype, name)!;
+      // Methods of subclasses come first, getters are left as they are
+      const isMethod = name !== 'constructor' && typeof value === 'function';
+      if (isMethod && !Object.prototype.hasOwnProperty.call(instance, name)) {
+        instance[name] = createMock(`${target.name}.${name}`);
+      }
+    }
+    prototype = Object.getPrototypeOf(prototype);
   }
+  return instance;
 }
 
 // TestContainer with override capabilities
 export class TestContainer extends Container {
+  private overrides = new Map<ServiceKey, symbol>(); // Keys overridden by this container and the ones it was derived from
+  private resolvedOverrides = new Set<symbol>(); // Resolved through this container, its scopes or its children
+
   withOverridden<T>(
     key: ServiceKey<T>,
-    factory: Factory<T>,
-    isSingleton: boolean,
+    factory: Factory<T> | AsyncFactory<T>,
+    lifetime: boolean | Lifetime, // `true` and `false` stand for singleton and transient
     kwargs: Record<string, any> = {}
   ): TestContainer {
-    const normalizedKey = normalizeKey(key);
+    this.getOverridden(key);
+    validateRegistration(key, factory, kwargs);
+    return this.override(key, {
+      factory,
+      lifetime: toLifetime(lifetime),
+      isAsync: isAsyncFunction(factory),
+      kwargs,
+    });
+  }
 
-    if (!this.registry.has(normalizedKey)) {
-      throw new ContainerError('Cannot override class without any registration');
+  // Override a key with a test double, which is neither initialized nor disposed
+  withValue<T>(key: ServiceKey<T>, instance: T): TestContainer {
+    this.getOverridden(key);
+    return this.override(key, { factory: () => instance, lifetime: 'singleton', isAsync: false, kwargs: {}, isValue: true });
+  }
+
+  // Override a key with an instance of its class whose methods are mocks, resolve it to stub and inspect them.
+  // createMock can be jest.fn or vi.fn to get the full API of a test framework
+  withAutoMock<T>(key: ServiceKey<T>, createMock: (name: string) => unknown = createMockFunction): TestContainer {
+    const target = typeof key === 'function' ? key : this.getOverridden(key).originalConstructor;
+    if (!target) {
+      throw new ContainerError(`Cannot auto-mock ${getKeyName(key)}, it is not registered with a class`);
     }
+    return this.withValue(key, createAutoMock(target, createMock));
+  }
 
-    validateRegistration(key, factory, kwargs);
+  // Fail when an override was never resolved, the test no longer exercises it
+  assertAllOverridesUsed(): void {
+    const unused = [...this.overrides].filter(([, override]) => !this.resolvedOverrides.has(override));
+    if (unused.length > 0) {
+      throw new ContainerError(`Overrides of ${unused.map(([key]) => getKeyName(key)).join(', ')} were never resolved`);
+    }
+  }
+
+  withOverriddenSingleton<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T>,
+    kwargs: Record<string, any> = {}
+  ): TestContainer {
+    return this.withOverridden(key, factory, true, kwargs);
+  }
+
+  // Strip the decorators and interceptors of a key, or of every registration when no key is given
+  withoutDecorators(key?: ServiceKey): TestContainer {
+    return this.withDecorations(key, []);
+  }
+
+  // Replace the decorators and interceptors of a key with a single decorator
+  withOverriddenDecorators<T>(key: ServiceKey<T>, decorate: Decorator<T>, kwargs: Record<string, any> = {}): TestContainer {
+    return this.withDecorations(key, [{ decorate, kwargs }]);
+  }
+
+  protected override markOverrideResolved(override: symbol): void {
+    this.resolvedOverrides.add(override);
+  }
+
+  private getOverridden(key: ServiceKey): Registration {
+    const registration = this.registry.get(key);
+    if (!registration) {
+      throw new ContainerError('Cannot override class without any registration');
+    }
+    return registration;
+  }
 
+  private override(key: ServiceKey, registration: Omit<Registration, 'key'>): TestContainer {
     const registryCopy = new Map(this.registry);
-    const localRegistryCopy = new Map(this.localRegistry);
 
-    registryCopy.set(normalizedKey, {
+    // Decorators keep wrapping the overridden key, an assisted key keeps taking its runtime arguments uncached
+    const { decorations, assisted } = this.registry.get(key)!;
+    const override = Symbol(getKeyName(key));
+    registryCopy.set(key, {
+      ...registration,
       key,
-      factory,
-      isSingleton,
-      kwargs,
+      lifetime: assisted ? 'transient' : registration.lifetime,
+      decorations,
+      assisted,
+      override,
     });
 
-    const testContainer = new TestContainer(registryCopy, localRegistryCopy);
+    // An overridden alias no longer follows its target, aliases of the key follow the override
+    const aliases = new Map(this.aliases);
+    aliases.delete(key);
+    const testContainer = this.createOverride(registryCopy, this.multiRegistry, aliases);
+    testContainer.overrides = new Map(this.overrides).set(key, override);
+    return testContainer;
+  }
+
+  private withDecorations(key: ServiceKey | undefined, decorations: Decoration[]): TestContainer {
+    const registrations = [...this.registry.values(), ...[...this.multiRegistry.values()].flat()];
+    const matches = (registration: Registration) => key === undefined || getDecorationTarget(registration).key === key;
+    if (key !== undefined && !registrations.some(matches)) {
+      throw new ContainerError(`Cannot decorate ${getKeyName(key)} without any registration`);
+    }
+
+    // A registration can be stored under several keys, it must stay a single registration
+    const replaced = new Map<Registration, Registration>();
+    const replace = (registration: Registration): Registration => {
+      if (!matches(registration)) {
+        return registration;
+      }
+      let replacement = replaced.get(registration);
+      if (!replacement) {
+        replacement = { ...registration, decorations };
+        replaced.set(registration, replacement);
+      }
+      return replacement;
+    };
+
+    return this.createOverride(
+      new Map([...this.registry].map(([registryKey, registration]) => [registryKey, replace(registration)])),
+      new Map([...this.multiRegistry].map(([registryKey, multi]) => [registryKey, multi.map(replace)]))
+    );
+  }
+
+  private createOverride(
+    registryCopy: Map<ServiceKey, Registration>,
+    multiRegistryCopy: Map<ServiceKey, Registration[]>,
+    aliases = this.aliases
+  ): TestContainer {
+    bindAliases(registryCopy, multiRegistryCopy, aliases);
+    // The override may depend on config values nothing depended on before
+    bindConfig(registryCopy, multiRegistryCopy, this.configSources);
+    // The override may add or remove an async factory from the graph
+    const asyncRegistrations = checkResolvable(registryCopy, multiRegistryCopy, {
+      onCaptiveDependency: this.onCaptiveDependency,
+    });
+    const testContainer = new TestContainer(registryCopy, multiRegistryCopy, asyncRegistrations, {
+      configSources: this.configSources,
+      aliases,
+      initTimeout: this.initTimeout,
+      onCaptiveDependency: this.onCaptiveDependency,
+    });
+    testContainer.overrides = this.overrides;
 
     // Update Container reference
-    registryCopy.set(normalizeKey(Container), {
+    registryCopy.set(Container, {
       key: Container,
       factory: () => testContainer,
-      isSingleton: true,
+      lifetime: 'singleton',
+      isAsync: false,
       kwargs: {},
     });
 
     return testContainer;
   }
-
-  withOverriddenSingleton<T>(
-    key: ServiceKey<T>,
-    factory: Factory<T>,
-    kwargs: Record<string, any> = {}
-  ): TestContainer {
-    return this.withOverridden(key, factory, true, kwargs);
-  }
 }
 
 // ContainerBuilder for constructing containers
 export class ContainerBuilder {
-  private registry: Map<string, Registration>;
-  private localRegistry: Map<string, ServiceKey>;
-
-  constructor() {
+  private options: ContainerBuilderOptions;
+  private registry: Map<ServiceKey, Registration>;
+  private multiRegistry: Map<ServiceKey, Registration[]>;
+  private modules: Map<ContainerModule, Set<ServiceKey>>; // Installed modules and their exported keys
+  private decorators: Map<ServiceKey, Decoration[]>;
+  private interceptors: { predicate: (target: DecorationTarget) => boolean; decoration: Decoration }[];
+  private scanned: Map<ServiceKey, Registration>; // Registrations found by scan, explicit registrations take precedence
+  private configSources: ConfigSource[]; // Later sources take precedence
+  private moduleConfigSources: ConfigSource[]; // Sources of installed modules, below those of the builder
+  private moduleName?: string; // Set on the builder a module configures
+
+  constructor(options: ContainerBuilderOptions = {}) {
+    this.options = options;
     this.registry = new Map();
-    this.localRegistry = new Map();
+    this.multiRegistry = new Map();
+    this.modules = new Map();
+    this.decorators = new Map();
+    this.interceptors = [];
+    this.scanned = new Map();
+    this.configSources = [];
+    this.moduleConfigSources = [];
   }
 
-  build(): Container {
-    const registryCopy = new Map(this.registry);
-    const localRegistryCopy = new Map(this.localRegistry);
+  // Build and validate the container, then create the eager singletons
+  build(options: BuildOptions = {}): Container {
+    const container = this.createContainer(options);
+    try {
+      container[WARM_UP](options.eager ?? false);
+    } catch (error) {
+      throw disposeAfterStartupError(container, error);
+    }
+    return container;
+  }
+
+  // Build like build(), awaiting async factories and onInit() hooks of the eager singletons
+  async buildAsync(options: BuildOptions = {}): Promise<Container> {
+    const container = this.createContainer(options);
+    try {
+      await container[WARM_UP_ASYNC](options.eager ?? false);
+    } catch (error) {
+      const failure = disposeAfterStartupError(container, error);
+      if (failure instanceof StartupError) {
+        await failure.disposal.catch(() => undefined);
+      }
+      throw failure;
+    }
+    return container;
+  }
 
-    const container = new Container(registryCopy, localRegistryCopy);
+  private createContainer(options: BuildOptions): Container {
+    const { registry: registryCopy, multiRegistry: multiRegistryCopy, configSources } = this[COLLECT_REGISTRATIONS]();
+    const asyncRegistrations = new Set<Registration>();
+    addDefaultVariants(registryCopy);
+    const aliases = takeAliases(registryCopy);
+    bindAliases(registryCopy, multiRegistryCopy, aliases);
+    bindConfig(registryCopy, multiRegistryCopy, configSources);
+
+    // Config sources, aliases and the captive dependency handler are kept for the children and test containers
+    const onCaptiveDependency = getCaptiveDependencyHandler(this.options.captiveDependencies ?? 'ignore');
+    const container = new Container(registryCopy, multiRegistryCopy, asyncRegistrations, {
+      configSources,
+      aliases,
+      initTimeout: options.initTimeout,
+      onCaptiveDependency,
+    });
 
     // Register container itself
-    registryCopy.set(normalizeKey(Container), {
+    registryCopy.set(Container, {
       key: Container,
       factory: () => container,
-      isSingleton: true,
+      lifetime: 'singleton',
+      isAsync: false,
       kwargs: {},
     });
-    localRegistryCopy.set('Container', Container);
 
-    // Validate all dependencies are resolvable
-    this.checkResolvable(registryCopy, localRegistryCopy);
+    // Validate all dependencies are resolvable, compiling the plan of each registration
+    for (const registration of checkResolvable(registryCopy, multiRegistryCopy, { onCaptiveDependency })) {
+      asyncRegistrations.add(registration);
+    }
 
     return container;
   }
 
   register<T>(
     key: ServiceKey<T>,
-    factory: Factory<T> | Constructor<T>,
-    options: { isSingleton: boolean; kwargs?: Record<string, any> }
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    options: RegistrationOptions<T> &
+      ({ isSingleton: boolean } | { lifetime: Lifetime }) & { kwargs?: Record<string, any> }
+  ): void {
+    this.addRegistration(
+      this.createRegistration(key, factory, {
+        ...options,
+        lifetime: toLifetime('lifetime' in options ? options.lifetime : options.isSingleton),
+      })
+    );
+  }
+
+  singleton<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    kwargs: Record<string, any> = {},
+    options: RegistrationOptions<T> = {}
+  ): void {
+    this.register(key, factory, { ...options, lifetime: 'singleton', kwargs });
+  }
+
+  transient<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    kwargs: Record<string, any> = {},
+    options: RegistrationOptions<T> = {}
+  ): void {
+    this.register(key, factory, { ...options, lifetime: 'transient', kwargs });
+  }
+
+  scoped<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    kwargs: Record<string, any> = {},
+    options: RegistrationOptions<T> = {}
+  ): void {
+    this.register(key, factory, { ...options, lifetime: 'scoped', kwargs });
+  }
+
+  // Register an existing instance, the container never disposes it unless a disposer is given
+  value<T>(key: ServiceKey<T>, instance: T, options: Pick<RegistrationOptions<T>, 'name' | 'dispose'> = {}): void {
+    const registration = this.createRegistration(key, () => instance, { ...options, lifetime: 'singleton' });
+    this.addRegistration({ ...registration, isValue: true });
+  }
+
+  // Resolve aliasKey to the registration of targetKey, sharing its singleton and scoped instances
+  alias<T>(aliasKey: ServiceKey<T>, targetKey: ServiceKey<T>, options: AliasOptions = {}): void {
+    this.addRegistration({
+      key: aliasKey,
+      factory: () => undefined, // Never called, the alias is replaced when building
+      lifetime: 'transient',
+      isAsync: false,
+      kwargs: {},
+      module: this.moduleName,
+      alias: { target: targetKey, deprecated: options.deprecated },
+    });
+  }
+
+  // Register a key created with runtime arguments, given to resolveWith or to an injected Factory.
+  // Every other parameter is resolved from the container, instances are never cached
+  assisted<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    runtimeParams: string[],
+    kwargs: Record<string, any> = {},
+    options: RegistrationOptions<T> = {}
+  ): void {
+    const registration = this.createRegistration(key, factory, { ...options, lifetime: 'transient', kwargs });
+    const paramNames = getFactoryParameterNames(registration);
+    for (const param of runtimeParams) {
+      if (!paramNames.includes(param) || param in kwargs) {
+        throw new ContainerError(`No runtime argument '${param}' for factory for type ${getKeyName(key)}`);
+      }
+    }
+    this.addRegistration({ ...registration, assisted: runtimeParams });
+  }
+
+  // Register the classes decorated with @Injectable({ ... }), given directly, in arrays or as module namespace objects.
+  // Classes given directly must be decorated, other exports of a namespace are skipped
+  scan(...sources: (Constructor | Constructor[] | Record<string, unknown>)[]): void {
+    for (const source of sources) {
+      if (typeof source === 'function' || Array.isArray(source)) {
+        for (const target of [source].flat()) {
+          const options = getInjectableMetadata(target);
+          if (!options) {
+            throw new ContainerError(`Class ${target.name} has no @Injectable({ lifetime }) registration to scan`);
+          }
+          this.addScanned(target, options);
+        }
+      } else {
+        for (const value of Object.values(source)) {
+          const options = typeof value === 'function' ? getInjectableMetadata(value) : undefined;
+          if (options) {
+            this.addScanned(value as Constructor, options);
+          }
+        }
+      }
+    }
+  }
+
+  // Add one of several providers for the same key, resolved together with resolveAll
+  multi<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    kwargs: Record<string, any> = {},
+    options: Omit<RegistrationOptions<T>, 'name'> & { lifetime?: Lifetime } = {}
   ): void {
-    const normalizedKey = normalizeKey(key);
+    this.addMultiRegistration(
+      this.createRegistration(key, factory, { ...options, lifetime: options.lifetime ?? 'singleton', kwargs })
+    );
+  }
+
+  // Wrap every instance created for a key, or for each of its named registrations, after the factory and before caching
+  decorate<T>(key: ServiceKey<T>, decorate: Decorator<T>, kwargs: Record<string, any> = {}): void {
+    this.decorators.set(key, [...(this.decorators.get(key) || []), { decorate, kwargs }]);
+  }
+
+  // Wrap every instance of the registrations matching the predicate, after the decorators of their key
+  intercept(predicate: (target: DecorationTarget) => boolean, decorate: Decorator, kwargs: Record<string, any> = {}): void {
+    this.interceptors.push({ predicate, decoration: { decorate, kwargs } });
+  }
+
+  // Add configuration sources, a plain object is read as nested values. Sources added later take precedence
+  config(...sources: (ConfigSource | Record<string, any>)[]): void {
+    for (const source of sources) {
+      this.configSources.push(typeof source.get === 'function' ? (source as ConfigSource) : new ObjectConfigSource(source));
+    }
+  }
+
+  // Add the registrations of a module after installing its imports, installing a module again has no effect
+  install(module: ContainerModule): void {
+    if (this.modules.has(module)) {
+      return;
+    }
+    this.modules.set(module, new Set());
+    for (const imported of module.imports) {
+      this.install(imported);
+    }
+
+    const moduleBuilder = new ContainerBuilder();
+    moduleBuilder.moduleName = module.name;
+    module.configure(moduleBuilder);
+    // Decorators and interceptors of the module only apply to its own registrations
+    const moduleRegistrations = moduleBuilder[COLLECT_REGISTRATIONS]();
+    this.moduleConfigSources.push(...moduleRegistrations.configSources);
+
+    const keys = new Set([...moduleRegistrations.registry.keys(), ...moduleRegistrations.multiRegistry.keys()]);
+    const exported = new Set(module.exports ?? keys);
+    const registered = new Set([...keys].map(key => (key instanceof QualifiedKey ? key.key : key)));
+    for (const key of exported) {
+      const reexported = module.imports.some(imported => this.modules.get(imported)?.has(key));
+      if (!keys.has(key) && !registered.has(key) && !reexported) {
+        throw new ContainerError(`Module ${module.name} exports ${getKeyName(key)} which it neither registers nor imports`);
+      }
+    }
+    // Exporting a key exports its named registrations
+    for (const key of keys) {
+      if (key instanceof QualifiedKey && exported.has(key.key)) {
+        exported.add(key);
+      }
+    }
+    this.modules.set(module, exported);
+
+    // Keys that are not exported are registered under a key only the module's registrations depend on
+    const keyMap = new Map<ServiceKey, ServiceKey>();
+    for (const key of keys) {
+      if (!exported.has(key)) {
+        keyMap.set(key, new PrivateKey(getKeyName(key)));
+      }
+    }
+    const localize = (registration: Registration): Registration => ({
+      ...registration,
+      key: keyMap.get(registration.key) ?? registration.key,
+      keyMap: keyMap.size > 0 ? keyMap : undefined,
+    });
+
+    for (const registration of moduleRegistrations.registry.values()) {
+      this.addRegistration(localize(registration));
+    }
+    for (const registrations of moduleRegistrations.multiRegistry.values()) {
+      for (const registration of registrations) {
+        this.addMultiRegistration(localize(registration));
+      }
+    }
+  }
+
+  private addScanned(target: Constructor, options: InjectableOptions): void {
+    const registration = this.createRegistration(options.provides ?? target, target, {
+      lifetime: options.lifetime ?? 'singleton',
+      name: options.name,
+    });
+    const existing = this.scanned.get(registration.key);
+    if (existing?.originalConstructor === target) {
+      return; // Exported under several names
+    }
+    if (existing) {
+      throw new ContainerError(
+        `Duplicate providers for ${getKeyName(registration.key)}: ${existing.originalConstructor!.name} and ${target.name}`
+      );
+    }
+    this.scanned.set(registration.key, registration);
+  }
+
+  // Copy the registrations with their decorators and interceptors attached
+  [COLLECT_REGISTRATIONS](): {
+    registry: Map<ServiceKey, Registration>;
+    multiRegistry: Map<ServiceKey, Registration[]>;
+    configSources: ConfigSource[];
+  } {
+    const registry = new Map(this.registry);
+    for (const [key, registration] of this.scanned) {
+      if (!registry.has(key) && !this.multiRegistry.has(key)) {
+        registry.set(key, registration);
+      }
+    }
+
+    const registrations = [...registry.values(), ...[...this.multiRegistry.values()].flat()];
+    for (const key of this.decorators.keys()) {
+      if (!registrations.some(registration => getDecorationTarget(registration).key === key)) {
+        throw new ContainerError(`Cannot decorate ${getKeyName(key)} without any registration`);
+      }
+    }
+
+    const decorate = (registration: Registration): Registration => {
+      const target = getDecorationTarget(registration);
+      const decorations = [
+        ...(this.decorators.get(target.key) || []),
+        ...this.interceptors.filter(({ predicate }) => predicate(target)).map(({ decoration }) => decoration),
+      ];
+      if (decorations.length === 0) {
+        return registration;
+      }
+      return { ...registration, decorations: [...(registration.decorations || []), ...decorations] };
+    };
+
+    return {
+      registry: new Map([...registry].map(([key, registration]) => [key, decorate(registration)])),
+      multiRegistry: new Map(
+        [...this.multiRegistry].map(([key, multiRegistrations]) => [key, multiRegistrations.map(decorate)])
+      ),
+      configSources: [...this.moduleConfigSources, ...this.configSources],
+    };
+  }
+
+  private addRegistration(registration: Registration): void {
+    const existing = this.registry.get(registration.key);
+    if (existing) {
+      throw new ContainerError(
+        `Type ${getRegistrationName(registration)} is already registered${getModuleSuffix(existing)}`
+      );
+    }
+    const [existingMulti] = this.multiRegistry.get(registration.key) || [];
+    if (existingMulti) {
+      throw new ContainerError(
+        `Type ${getRegistrationName(registration)} is already registered as a multi-binding${getModuleSuffix(existingMulti)}`
+      );
+    }
 
-    if (this.registry.has(normalizedKey)) {
-      throw new ContainerError(`Type ${String(key)} is already registered`);
+    this.registry.set(registration.key, registration);
+  }
+
+  private addMultiRegistration(registration: Registration): void {
+    const existing = this.registry.get(registration.key);
+    if (existing) {
+      throw new ContainerError(
+        `Type ${getRegistrationName(registration)} is already registered${getModuleSuffix(existing)} and cannot be a multi-binding`
+      );
     }
 
+    const registrations = this.multiRegistry.get(registration.key) || [];
+    registrations.push(registration);
+    this.multiRegistry.set(registration.key, registrations);
+  }
+
+  private createRegistration<T>(
+    key: ServiceKey<T>,
+    factory: Factory<T> | AsyncFactory<T> | Constructor<T>,
+    options: RegistrationOptions<T> & { lifetime: Lifetime; kwargs?: Record<string, any> }
+  ): Registration<T> {
     const kwargs = options.kwargs || {};
+    if (options.eager && options.lifetime !== 'singleton') {
+      throw new ContainerError(`Type ${getKeyName(key)} cannot be eager, only singletons are created when building`);
+    }
 
     // If factory is a constructor, create an auto-resolving factory
-    let actualFactory: Factory<T>;
+    let actualFactory: Factory<T> | AsyncFactory<T>;
     let originalConstructor: Constructor<T> | undefined;
     if (isConstructor(factory)) {
       actualFactory = createAutoFactory(factory);
@@ -372,80 +3011,203 @@ export class ContainerBuilder {
       validateRegistration(key, factory, kwargs);
     }
 
-    this.registry.set(normalizedKey, {
-      key,
+    return {
+      key: qualifyKey(key, options.name),
       factory: actualFactory,
-      isSingleton: options.isSingleton,
+      lifetime: options.lifetime,
+      // An async onInit() has to be awaited like an async factory
+      isAsync: options.isAsync ?? (isAsyncFunction(factory) || isAsyncFunction(originalConstructor?.prototype.onInit)),
       kwargs,
       originalConstructor,
-    });
+      dispose: options.dispose,
+      module: this.moduleName,
+      eager: options.eager,
+      initTimeout: options.initTimeout,
+    };
+  }
+}
 
-    // Update local registry for type name lookup
-    if (typeof key === 'function') {
-      this.localRegistry.set(key.name, key);
-    }
+// Options for a ContainerModule
+export interface ContainerModuleOptions {
+  imports?: ContainerModule[]; // Installed before the module
+  exports?: ServiceKey[]; // Keys visible outside the module, every registered key when omitted
+}
+
+// Named set of registrations added to a builder with ContainerBuilder.install
+export class ContainerModule {
+  readonly imports: ContainerModule[];
+  readonly exports?: ServiceKey[];
+
+  constructor(
+    public readonly name: string,
+    public readonly configure: (builder: ContainerBuilder) => void,
+    options: ContainerModuleOptions = {}
+  ) {
+    this.imports = options.imports ?? [];
+    this.exports = options.exports;
   }
+}
+
+// Instance created while a StartupReport was recording
+interface StartupNode {
+  name: string;
+  lifetime?: Lifetime; // Unset for a key that is not registered
+  duration?: number; // Unset while the creation is in progress
+  failed: boolean;
+  children: StartupNode[];
+}
 
-  singleton<T>(key: ServiceKey<T>, factory: Factory<T> | Constructor<T>, kwargs: Record<string, any> = {}): void {
-    this.register(key, factory, { isSingleton: true, kwargs });
+// Records the instances created by a container and renders how long each took, with its dependencies nested
+export class StartupReport {
+  private readonly nodes = new Map<number, StartupNode>();
+  private readonly roots: StartupNode[] = [];
+  private readonly unsubscribe: (() => void)[];
+
+  constructor(container: Container) {
+    this.unsubscribe = [
+      container.on('resolve:start', event => {
+        const node: StartupNode = { name: event.name, lifetime: event.lifetime, failed: false, children: [] };
+        this.nodes.set(event.id, node);
+        this.getSiblings(event.parentId).push(node);
+      }),
+      // Resolutions that started before the report are not recorded
+      container.on('resolve:end', event => {
+        const node = this.nodes.get(event.id);
+        if (!node) {
+          return;
+        }
+        node.duration = event.duration;
+        // Cache hits did not create anything
+        if (event.cached) {
+          const siblings = this.getSiblings(event.parentId);
+          siblings.splice(siblings.indexOf(node), 1);
+        }
+      }),
+      container.on('resolve:error', event => {
+        const node = this.nodes.get(event.id);
+        if (node) {
+          node.duration = event.duration;
+          node.failed = true;
+        }
+      }),
+    ];
   }
 
-  transient<T>(key: ServiceKey<T>, factory: Factory<T> | Constructor<T>, kwargs: Record<string, any> = {}): void {
-    this.register(key, factory, { isSingleton: false, kwargs });
+  // A resolution whose parent was not recorded is shown as a root
+  private getSiblings(parentId: number | undefined): StartupNode[] {
+    const parent = parentId === undefined ? undefined : this.nodes.get(parentId);
+    return parent ? parent.children : this.roots;
   }
 
-  private checkResolvable(
-    registry: Map<string, Registration>,
-    localRegistry: Map<string, ServiceKey>
-  ): void {
-    const resolved = new Set<string>();
+  // Stop recording, format() keeps rendering what was recorded
+  stop(): void {
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+  }
 
-    for (const [key] of registry) {
-      this.checkResolution(key, resolved, new Set(), registry, localRegistry, null);
-    }
+  // Render the recorded creations as a tree, bars are proportional to the slowest root
+  format(): string {
+    const total = Math.max(0, ...this.roots.map(node => node.duration ?? 0));
+    const lines: string[] = [];
+    const visit = (node: StartupNode, prefix: string, connector: string) => {
+      let line = `${prefix}${connector}${node.name}${node.lifetime ? ` (${node.lifetime})` : ''}`;
+      if (node.duration === undefined) {
+        line += ' pending';
+      } else {
+        line += node.failed ? ` failed after ${node.duration.toFixed(1)}ms` : ` ${node.duration.toFixed(1)}ms`;
+        const width = total > 0 ? Math.round((node.duration / total) * 20) : 0;
+        if (width > 0) {
+          line += ` ${'█'.repeat(width)}`;
+        }
+      }
+      lines.push(line);
+      const childPrefix = prefix + (connector === '├─ ' ? '│  ' : connector ? '   ' : '');
+      node.children.forEach((child, index) =>
+        visit(child, childPrefix, index === node.children.length - 1 ? '└─ ' : '├─ ')
+      );
+    };
+    this.roots.forEach(root => visit(root, '', ''));
+    return lines.join('\n');
   }
+}
 
-  private checkResolution(
-    key: string,
-    resolved: Set<string>,
-    resolving: Set<string>,
-    registry: Map<string, Registration>,
-    localRegistry: Map<string, ServiceKey>,
-    parent: string | null
-  ): void {
-    if (resolved.has(key)) {
-      return;
+// Helper decorator for automatic dependency injection
+// NOTE: With experimentalDecorators, this decorator makes TypeScript emit parameter type metadata.
+// Standard decorators emit none, their classes declare dependencies with deps instead.
+// With registration options, it also records how ContainerBuilder.scan registers the class
+export function Injectable(options?: InjectableOptions) {
+  // Standard decorators also receive a context, which is not needed
+  return function <T extends Constructor>(target: T) {
+    const { deps, ...registration } = options ?? {};
+    if (deps) {
+      Reflect.defineMetadata(DEPENDENCIES_METADATA, deps, target);
     }
-
-    if (resolving.has(key)) {
-      throw new ContainerError(`Cycle dependencies for type ${key}`);
+    if (options && (!deps || Object.keys(registration).length > 0)) {
+      Reflect.defineMetadata(INJECTABLE_METADATA, registration, target);
     }
+    return target;
+  };
+}
 
-    resolving.add(key);
+// Parameter decorator choosing the key injected into a constructor parameter
+export function Inject(key: ServiceKey) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { key });
+  };
+}
 
-    const registration = registry.get(key);
-    if (!registration) {
-      throw new ContainerError(
-        `No dependency of type ${key}${parent ? ` needed by ${parent}` : ''}`
-      );
-    }
+// Parameter decorator choosing the named registration injected into a constructor parameter
+export function Named(name: string) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { name });
+  };
+}
 
-    const deps = getDependencies(registration, localRegistry);
-    for (const depKey of deps.values()) {
-      const normalizedDepKey = normalizeKey(depKey);
-      this.checkResolution(normalizedDepKey, resolved, resolving, registry, localRegistry, key);
-    }
+// Parameter decorator injecting a configuration value, the type defaults to the reflected parameter type
+export function Config<T = any>(path: string, options: ConfigValueOptions<T> = {}) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    const type = options.type ?? PRIMITIVE_TYPES.get(getParameterTypes(target)[parameterIndex]);
+    setParameterMetadata(target, parameterIndex, { config: new ConfigValue(path, { ...options, type }) });
+  };
+}
 
-    resolving.delete(key);
-    resolved.add(key);
-  }
+// Parameter decorator injecting a Factory creating an assisted registration from its runtime arguments
+export function InjectFactory(key: ServiceKey) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { key, deferred: 'factory' });
+  };
 }
 
-// Helper decorator for automatic dependency injection
-// NOTE: This decorator is required for TypeScript to emit parameter type metadata.
-// Without it, you must provide explicit kwargs with Dependency objects.
-export function Injectable() {
-  return function <T extends Constructor>(target: T) {
-    return target;
+// Parameter decorator exempting a constructor parameter from captive dependency checks
+export function AllowCaptive() {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { allowCaptive: true });
+  };
+}
+
+// Parameter decorator injecting every multi-binding of a key as an array
+export function InjectAll(key: ServiceKey) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { key, multi: true });
+  };
+}
+
+// Parameter decorator injecting a Lazy<T> resolved on first access
+export function InjectLazy(key: ServiceKey) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { key, deferred: 'lazy' });
+  };
+}
+
+// Parameter decorator injecting a Provider<T> resolving on each call
+export function InjectProvider(key: ServiceKey) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { key, deferred: 'provider' });
+  };
+}
+
+// Parameter decorator injecting undefined, or the fallback, when nothing is registered for the parameter
+export function Optional<T = any>(fallback: FallbackOptions<T> = {}) {
+  return function (target: any, _propertyKey: string | symbol | undefined, parameterIndex: number) {
+    setParameterMetadata(target, parameterIndex, { optional: true, fallback: getFallback(fallback) });
   };
 }
@@ -2,10 +2,70 @@ export {
   Container,
   TestContainer,
   ContainerBuilder,
+  ContainerModule,
+  StartupReport,
   ContainerError,
+  AggregateContainerError,
+  ResolutionError,
+  MissingDependencyError,
+  CyclicDependencyError,
+  AmbiguousDependencyError,
+  CaptiveDependencyError,
+  ConfigError,
+  StartupError,
   Dependency,
+  InjectionToken,
+  MultiDependency,
+  LazyDependency,
+  ProviderDependency,
+  FactoryDependency,
+  ConfigValue,
+  ObjectConfigSource,
+  EnvConfigSource,
+  Lazy,
   Injectable,
+  Inject,
+  InjectAll,
+  Named,
+  AllowCaptive,
+  InjectLazy,
+  InjectProvider,
+  InjectFactory,
+  Optional,
+  Config,
   ServiceKey,
   Constructor,
   Factory,
+  AsyncFactory,
+  Disposer,
+  Provider,
+  DependencySource,
+  GraphFormat,
+  Decorator,
+  DecorationTarget,
+  DecoratorContext,
+  ExportGraphOptions,
+  DependencyGraph,
+  Lifetime,
+  RegistrationOptions,
+  ContainerModuleOptions,
+  ContainerBuilderOptions,
+  CaptiveDependencyMode,
+  DependencyOptions,
+  FallbackOptions,
+  OptionalDependencyOptions,
+  ResolutionStep,
+  AliasOptions,
+  BuildOptions,
+  InjectableOptions,
+  DeclaredDependency,
+  MockFunction,
+  AutoMock,
+  ResolutionEvent,
+  ResolveEndEvent,
+  ResolveErrorEvent,
+  ResolutionEvents,
+  ConfigType,
+  ConfigValueOptions,
+  ConfigSource,
 } from './container';